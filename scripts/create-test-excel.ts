@@ -4,9 +4,9 @@ import * as path from 'path'
 
 // Create a test Excel file for development
 const testData = [
-  ['City', 'Venue', 'Capacity'],
-  ['Chicago', 'United Center', '23,500'],
-  ['Toronto', 'Scotiabank Arena', '19,800']
+  ['City', 'Venue', 'Capacity', 'Date', 'Doors', 'Show', 'Timezone'],
+  ['Chicago', 'United Center', '23,500', '2026-03-14', '19:00', '20:30', 'America/Chicago'],
+  ['Toronto', 'Scotiabank Arena', '19,800', '2026-03-17', '18:30', '20:00', 'America/Toronto']
 ]
 
 const worksheet = XLSX.utils.aoa_to_sheet(testData)
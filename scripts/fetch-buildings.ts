@@ -5,6 +5,7 @@ import { join } from 'path'
 import fetch from 'node-fetch'
 import * as osmtogeojson from 'osmtogeojson'
 import type { Stop } from '../src/lib/data/types'
+import { STOPS_DATA_PATH, parseStopsPayload } from '../src/lib/data/schema'
 
 /**
  * Fetches building footprints around each venue using Overpass API
@@ -102,11 +103,11 @@ async function saveGeoJSON(stopId: string, geojson: any): Promise<void> {
 }
 
 /**
- * Checks if buildings file already exists (for caching)
+ * Finds an existing buildings file for the stop (for caching), under its id or any alias
  */
-function buildingsFileExists(stopId: string): boolean {
-  const filename = join(OUTPUT_DIR, `${stopId}.geojson`)
-  return existsSync(filename)
+function findBuildingsFile(stop: Stop): string | null {
+  const ids = [stop.id, ...(stop.aliases ?? [])]
+  return ids.find(id => existsSync(join(OUTPUT_DIR, `${id}.geojson`))) ?? null
 }
 
 /**
@@ -123,14 +124,13 @@ async function main() {
   console.log('[Buildings] Starting building data fetch...')
   
   // Load stops data
-  const stopsPath = 'public/data/stops.v1.json'
+  const stopsPath = join('public', STOPS_DATA_PATH)
   if (!existsSync(stopsPath)) {
-    console.error('[Buildings] Error: stops.v1.json not found. Run "npm run data:v1" first.')
+    console.error(`[Buildings] Error: ${stopsPath} not found. Run "npm run data:v1" first.`)
     process.exit(1)
   }
   
-  const stopsData = JSON.parse(await fs.readFile(stopsPath, 'utf8'))
-  const stops: Stop[] = stopsData
+  const stops: Stop[] = parseStopsPayload(JSON.parse(await fs.readFile(stopsPath, 'utf8'))).stops
   
   console.log(`[Buildings] Processing ${stops.length} stops...`)
   
@@ -141,8 +141,10 @@ async function main() {
   for (const stop of stops) {
     try {
       // Check if we already have buildings for this stop
-      if (buildingsFileExists(stop.id)) {
-        console.log(`[Buildings] Skipping ${stop.city} (${stop.id}) - file exists`)
+      const existing = findBuildingsFile(stop)
+      if (existing) {
+        const via = existing === stop.id ? '' : ` as ${existing}.geojson`
+        console.log(`[Buildings] Skipping ${stop.city} (${stop.id}) - file exists${via}`)
         skipped++
         continue
       }
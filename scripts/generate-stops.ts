@@ -1,218 +1,399 @@
-// Handle both CommonJS and ESM imports for xlsx
-import XLSXModule from 'xlsx'
-const XLSX = XLSXModule.default || XLSXModule
 import { promises as fs, existsSync } from 'fs'
-import { join } from 'path'
+import { dirname, join } from 'path'
+import { loadColumnMapping, resolveColumns } from './stops/columns'
+import { createSource, inferSourceType, SOURCE_TYPES, type SourceConfig, type SourceType } from './stops/sources'
+import { geocodeStop, loadGazetteer, type GeocodeResult } from './stops/geocode'
+import { findCountry, parseCityValue, resolvePlace } from './stops/places'
+import { loadOverrides, OverrideMatcher } from './stops/overrides'
+import { StopIdRegistry, type ResolvedStopId } from './stops/stopIds'
+import {
+  parseCapacity,
+  parseDate,
+  parseTime,
+  parseTimezone,
+  parseStatus,
+  parseMoney,
+  parsePriceRange,
+  parseCurrency,
+  parseText
+} from './stops/parsers'
+import type { FinancialBasis, Stop, StopFinancials } from '../src/lib/data/types'
+import {
+  STOPS_DATA_PATH,
+  STOPS_SCHEMA_VERSION,
+  StopsSchemaError,
+  validateStopsPayload,
+  type StopsPayload
+} from '../src/lib/data/schema'
+import {
+  checkRouting,
+  DEFAULT_ROUTING_RULES,
+  ROUTING_RULES_DATA_PATH,
+  validateRoutingRules
+} from '../src/lib/routing/feasibility'
 
-interface Stop {
-  id: string
-  order: number
-  city: string
-  countryCode: string
-  venue: string
-  capacityMin: number | null
-  capacityMax: number | null
-  lat: number | null
-  lng: number | null
-  bullets: string[]
+interface GeneratorConfig {
+  /** Where routing data is read from; see scripts/stops/sources.ts */
+  source: SourceConfig
+  geocode: {
+    /** Gazetteer matches below this confidence are listed for review */
+    minConfidence: number
+  }
+  overrides: {
+    /** Fail the run on overrides that match no row or rows that match several */
+    strict: boolean
+  }
+  financials: {
+    /** ISO 4217 code for rows without a Currency column or override */
+    defaultCurrency: string
+  }
 }
 
-interface Override {
-  lat?: number
-  lng?: number
-  bullets?: string[]
-  [key: string]: any
+/** columns.json field names holding the base and upside figures */
+const FINANCIAL_COLUMNS: { [B in FinancialBasis]: { ticketPrice: string; projectedGross: string; netGuarantee: string; rationale: string } } = {
+  base: { ticketPrice: 'ticketPrice', projectedGross: 'projectedGross', netGuarantee: 'netGuarantee', rationale: 'rationale' },
+  upside: { ticketPrice: 'upsideTicketPrice', projectedGross: 'upsideProjectedGross', netGuarantee: 'upsideNetGuarantee', rationale: 'upsideRationale' }
 }
 
-function parseCapacity(capacityStr: string): { min: number | null; max: number | null } {
-  if (!capacityStr || capacityStr.trim() === '' || capacityStr.toLowerCase() === 'tbd') {
-    return { min: null, max: null }
+const DEFAULT_CONFIG: GeneratorConfig = {
+  source: {
+    type: 'xlsx',
+    path: 'data/Cities, Venues.xlsx',
+    sheetPattern: '^(US & CAN|EU|UK|LATAM|APAC)$'
+  },
+  geocode: {
+    minConfidence: 0.8
+  },
+  overrides: {
+    strict: false
+  },
+  financials: {
+    defaultCurrency: 'USD'
   }
+}
 
-  // Remove commas and clean the string
-  const cleaned = capacityStr.replace(/,/g, '').trim()
-  
-  // Check for range format like "13500 - 16500" or "13500-16500"
-  const rangeMatch = cleaned.match(/(\d+)\s*-\s*(\d+)/)
-  if (rangeMatch) {
-    return {
-      min: parseInt(rangeMatch[1]),
-      max: parseInt(rangeMatch[2])
-    }
-  }
-  
-  // Check for single number
-  const singleMatch = cleaned.match(/(\d+)/)
-  if (singleMatch) {
-    const capacity = parseInt(singleMatch[1])
-    return { min: capacity, max: capacity }
+/**
+ * Reads a `--name=value` (or `--name value`) option from the command line
+ */
+function getCliOption(name: string): string | undefined {
+  const args = process.argv.slice(2)
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === `--${name}`) return args[i + 1]
+    if (args[i].startsWith(`--${name}=`)) return args[i].slice(name.length + 3)
   }
-  
-  return { min: null, max: null }
+  return undefined
+}
+
+/**
+ * True when a bare `--name` flag (or `--name=true`) is on the command line
+ */
+function hasCliFlag(name: string): boolean {
+  const args = process.argv.slice(2)
+  return args.includes(`--${name}`) || args.includes(`--${name}=true`)
 }
 
-function generateStopId(city: string, venue: string): string {
-  const cleanCity = city.replace(/[^a-zA-Z0-9]/g, '').toLowerCase()
-  const cleanVenue = venue.replace(/[^a-zA-Z0-9]/g, '').toLowerCase()
-  return `${cleanCity}-${cleanVenue}`
+/**
+ * Loads data/stops.config.json, falling back to defaults for missing keys
+ */
+async function loadConfig(): Promise<GeneratorConfig> {
+  const configPath = join(process.cwd(), 'data', 'stops.config.json')
+  if (!existsSync(configPath)) return DEFAULT_CONFIG
+  const fileConfig = JSON.parse(await fs.readFile(configPath, 'utf8')) as Partial<GeneratorConfig>
+  return {
+    ...DEFAULT_CONFIG,
+    ...fileConfig,
+    source: { ...DEFAULT_CONFIG.source, ...fileConfig.source },
+    geocode: { ...DEFAULT_CONFIG.geocode, ...fileConfig.geocode },
+    overrides: { ...DEFAULT_CONFIG.overrides, ...fileConfig.overrides },
+    financials: { ...DEFAULT_CONFIG.financials, ...fileConfig.financials }
+  }
 }
 
-function getCountryCode(city: string): string {
-  // Simple mapping for common cities - can be expanded
-  const cityToCountry: { [key: string]: string } = {
-    'toronto': 'CA',
-    'montreal': 'CA',
-    'vancouver': 'CA',
-    'calgary': 'CA',
-    'ottawa': 'CA',
-    'chicago': 'US',
-    'new york': 'US',
-    'los angeles': 'US',
-    'miami': 'US',
-    'boston': 'US',
-    'atlanta': 'US',
-    'dallas': 'US',
-    'houston': 'US',
-    'philadelphia': 'US',
-    'phoenix': 'US',
-    'san antonio': 'US',
-    'san diego': 'US',
-    'detroit': 'US',
-    'san jose': 'US',
-    'indianapolis': 'US',
-    'jacksonville': 'US',
-    'san francisco': 'US',
-    'columbus': 'US',
-    'charlotte': 'US',
-    'fort worth': 'US',
-    'denver': 'US',
-    'el paso': 'US',
-    'memphis': 'US',
-    'seattle': 'US',
-    'washington': 'US',
-    'nashville': 'US',
-    'baltimore': 'US',
-    'oklahoma city': 'US',
-    'louisville': 'US',
-    'portland': 'US',
-    'las vegas': 'US',
-    'milwaukee': 'US',
-    'albuquerque': 'US',
-    'tucson': 'US',
-    'fresno': 'US',
-    'sacramento': 'US',
-    'long beach': 'US',
-    'kansas city': 'US',
-    'mesa': 'US',
-    'virginia beach': 'US',
-    'colorado springs': 'US',
-    'omaha': 'US',
-    'raleigh': 'US',
-    'oakland': 'US',
-    'minneapolis': 'US',
-    'tulsa': 'US',
-    'cleveland': 'US',
-    'wichita': 'US',
-    'arlington': 'US'
+/**
+ * Applies --source, --input, --url and --sheets on top of the configured source.
+ * Switching source type drops settings that belonged to the configured one.
+ */
+function resolveSourceConfig(configured: SourceConfig): SourceConfig {
+  const input = getCliOption('input')
+  const url = getCliOption('url')
+  const requested = getCliOption('source') as SourceType | undefined
+  const type = requested
+    ?? (input ? inferSourceType(input) : null)
+    ?? (url ? 'http' : null)
+    ?? configured.type
+
+  if (!SOURCE_TYPES.includes(type)) {
+    throw new Error(`Unknown --source "${type}" (expected ${SOURCE_TYPES.join(', ')})`)
+  }
+
+  const base: SourceConfig = type === configured.type ? configured : { type }
+  return {
+    ...base,
+    ...(input ? { path: input } : {}),
+    ...(url ? { url } : {}),
+    ...(getCliOption('sheets') ? { sheetPattern: getCliOption('sheets') } : {})
   }
-  
-  return cityToCountry[city.toLowerCase()] || 'US'
 }
 
 async function generateStops() {
   try {
     console.log('🚀 Starting stops generation...')
     
-    // Check if Excel file exists
-    const excelPath = join(process.cwd(), 'data', 'Cities, Venues.xlsx')
-    if (!existsSync(excelPath)) {
-      console.error('❌ Excel file not found at:', excelPath)
+    // Read tables from the configured source adapter
+    const config = await loadConfig()
+    const sourceConfig = resolveSourceConfig(config.source)
+    
+    if (sourceConfig.type === 'xlsx' && sourceConfig.path && !existsSync(join(process.cwd(), sourceConfig.path))) {
+      console.error('❌ Excel file not found at:', join(process.cwd(), sourceConfig.path))
       console.error('')
       console.error('Solutions:')
       console.error('1. Commit data/Cities, Venues.xlsx to your repository')
       console.error('2. Or use pre-generated data: set SKIP_DATA_GEN=1 and commit public/data/** artifacts')
+      console.error('3. Or read another source: --source csv|json|http with --input <file> or --url <endpoint>')
       throw new Error('Missing required Excel file for data generation')
     }
     
-    // Read Excel file
-    console.log('📊 Reading Excel file...')
-    const workbook = XLSX.readFile(excelPath)
-    
-    // Check if "US & CAN" sheet exists
-    if (!workbook.SheetNames.includes('US & CAN')) {
-      console.error('❌ Sheet "US & CAN" not found in Excel file')
-      console.log('Available sheets:', workbook.SheetNames)
-      process.exit(1)
-    }
-    
-    const worksheet = workbook.Sheets['US & CAN']
-    const data = XLSX.utils.sheet_to_json(worksheet, { header: 1 }) as any[][]
-    
-    console.log(`📋 Found ${data.length} rows in Excel sheet`)
+    const source = createSource(sourceConfig)
+    console.log(`📊 Reading ${source.describe()}...`)
+    const tables = await source.readTables()
     
-    // Skip header row and process data
-    const dataRows = data.slice(1).filter(row => row && row.length > 0 && row[0])
-    
-    if (dataRows.length === 0) {
-      console.error('❌ No data rows found in Excel sheet')
-      process.exit(1)
-    }
+    console.log(`📑 Using tables: ${tables.map(t => t.name).join(', ')}`)
     
-    console.log(`🔍 Processing ${Math.min(dataRows.length, 2)} stops for v1...`)
+    // Load the offline gazetteer used to place stops without override coordinates
+    const gazetteer = await loadGazetteer(join(process.cwd(), 'data', 'gazetteer'))
     
     // Load overrides
-    let overrides: { [key: string]: Override } = {}
     const overridePath = join(process.cwd(), 'data', 'stops.override.json')
     if (existsSync(overridePath)) {
       console.log('📝 Loading overrides...')
-      overrides = JSON.parse(await fs.readFile(overridePath, 'utf8'))
     }
+    const overrides = new OverrideMatcher(await loadOverrides(overridePath), gazetteer)
+    const strictOverrides = hasCliFlag('strict-overrides') || config.overrides.strict
     
-    // Process only first 2 rows for v1
+    // Stable ids: data/stop-ids.json maps venues to the id they were first published under
+    const idRegistry = await StopIdRegistry.load(join(process.cwd(), 'data', 'stop-ids.json'), gazetteer)
+    const idChanges: { stop: Stop; resolved: ResolvedStopId }[] = []
+    const idCounts = new Map<string, number>()
+    const minConfidence = Number(getCliOption('min-confidence') ?? config.geocode.minConfidence)
+    const needsReview: { stop: Stop; result: GeocodeResult }[] = []
+    const unplaced: Stop[] = []
+    
+    // Load column mapping
+    const columnMapping = await loadColumnMapping(join(process.cwd(), 'data', 'columns.json'))
+    let missingRequired = false
+    
+    // Order runs across the whole tour, following sheet order then row order
     const stops: Stop[] = []
-    const rowsToProcess = dataRows.slice(0, 2)
     
-    rowsToProcess.forEach((row, index) => {
-      // Assuming Excel columns: City, Venue, Capacity, ... (adjust as needed)
-      const city = (row[0] || '').toString().trim() || 'TBD'
-      const venue = (row[1] || '').toString().trim() || 'TBD'
-      const capacityStr = (row[2] || '').toString().trim()
+    for (const table of tables) {
+      const tableName = table.name
+      const data = table.rows as any[][]
+      
+      console.log(`📋 Found ${data.length} rows in "${tableName}"`)
+      
+      // Columns are located by header name via data/columns.json
+      const resolved = resolveColumns(data[0] || [], columnMapping)
+      if (resolved.unknown.length > 0) {
+        console.warn(`⚠️  Unknown headers in "${tableName}" (add them to data/columns.json): ${resolved.unknown.join(', ')}`)
+      }
+      if (resolved.duplicates.length > 0) {
+        console.warn(`⚠️  Duplicate headers in "${tableName}" (first column wins): ${resolved.duplicates.join(', ')}`)
+      }
+      if (resolved.missing.length > 0) {
+        console.error(`❌ "${tableName}" is missing required columns: ${resolved.missing.join(', ')}`)
+        missingRequired = true
+        continue
+      }
       
-      const capacity = parseCapacity(capacityStr)
-      const overrideKey = `${city}+${venue}`
-      const override = overrides[overrideKey] || {}
+      const cityCol = resolved.columns.city
+      const cellOf = (row: any[], field: string) => {
+        const col = resolved.columns[field]
+        return col === undefined ? null : row[col]
+      }
+      
+      // Skip header row; a row is valid when it names a city
+      const dataRows = data.slice(1).filter(row => row && row.length > 0 && (row[cityCol] ?? '').toString().trim())
       
-      const stop: Stop = {
-        id: generateStopId(city, venue),
-        order: index + 1,
-        city,
-        countryCode: getCountryCode(city),
-        venue,
-        capacityMin: capacity.min,
-        capacityMax: capacity.max,
-        lat: override.lat || null,
-        lng: override.lng || null,
-        bullets: override.bullets || [
-          'Ticket Price: TBD',
-          'Gross Revenue: TBD',
-          'Net/Guarantee: TBD',
-          'Notes: TBD'
-        ]
+      if (dataRows.length === 0) {
+        console.warn(`⚠️  No data rows found in "${tableName}"`)
+        continue
       }
       
-      stops.push(stop)
-      console.log(`✅ Processed: ${city} - ${venue}`)
+      dataRows.forEach(row => {
+        const cell = (field: string) => cellOf(row, field)
+        // Ids and override keys use the city as written ("Chicago, US"); the stop gets the bare name
+        const cityValue = parseText(cell('city')) || 'TBD'
+        const parsedCity = parseCityValue(gazetteer, cityValue)
+        const city = parsedCity.city
+        const venue = parseText(cell('venue')) || 'TBD'
+        const capacity = parseCapacity((cell('capacity') ?? '').toString())
+        
+        const date = parseDate(cell('date'))
+        const doorsTime = parseTime(cell('doorsTime'))
+        const showTime = parseTime(cell('showTime'))
+        const timezone = parseTimezone(cell('timezone'))
+        const status = parseStatus(cell('status'))
+        if (cell('date') && !date) {
+          console.warn(`⚠️  ${cityValue}: unrecognised date "${cell('date')}"`)
+        }
+        if (cell('timezone') && !timezone) {
+          console.warn(`⚠️  ${cityValue}: unknown timezone "${cell('timezone')}" (expected IANA name like America/Chicago)`)
+        }
+        if (parseText(cell('status')) && !status) {
+          console.warn(`⚠️  ${cityValue}: unknown status "${cell('status')}" (expected confirmed, hold, offer or cancelled)`)
+        }
+        const countryValue = parseText(cell('country'))
+        const columnCountry = countryValue ? findCountry(gazetteer, countryValue) : null
+        if (countryValue && !columnCountry) {
+          console.warn(`⚠️  ${cityValue}: unknown country "${countryValue}" (expected ISO code or name)`)
+        }
+        if (parsedCity.unknownCountry) {
+          console.warn(`⚠️  ${cityValue}: unknown country code "${parsedCity.unknownCountry}"`)
+        }
+        const country = columnCountry ?? parsedCity.country
+        
+        const resolvedId = idRegistry.resolve(cityValue, venue)
+        // Repeat nights at one venue share its registry id; later nights get a suffix
+        const night = (idCounts.get(resolvedId.id) ?? 0) + 1
+        idCounts.set(resolvedId.id, night)
+        const id = night > 1 ? `${resolvedId.id}-${night}` : resolvedId.id
+        const override = overrides.match([resolvedId.id, ...resolvedId.aliases], cityValue, venue)?.override ?? {}
+        const hasOverrideCoords = override.lat != null && override.lng != null
+        const geocoded = geocodeStop(gazetteer, city, country?.code ?? null, venue)
+        const placed = hasOverrideCoords ? null : geocoded
+        const lat = hasOverrideCoords ? override.lat! : placed?.lat ?? null
+        const lng = hasOverrideCoords ? override.lng! : placed?.lng ?? null
+        const place = resolvePlace(gazetteer, {
+          country,
+          countrySource: columnCountry ? 'column' : 'city',
+          admin1: parseText(cell('admin1')),
+          lat,
+          lng
+        })
+        if (parseText(cell('admin1')) && !place.admin1Code) {
+          console.warn(`⚠️  ${cityValue}: unknown state/province "${cell('admin1')}"`)
+        }
+        
+        const currency = parseCurrency(cell('currency'))
+        if (parseText(cell('currency')) && !currency) {
+          console.warn(`⚠️  ${cityValue}: unknown currency "${cell('currency')}" (expected ISO 4217 code like USD)`)
+        }
+        // Sheet cells win; the override fills blanks, as with timezone
+        const financialsFor = (basis: FinancialBasis): StopFinancials => {
+          const columns = FINANCIAL_COLUMNS[basis]
+          const fallback = override.financials?.[basis] ?? {}
+          const ticketPrice = parsePriceRange(cell(columns.ticketPrice))
+          return {
+            currency: currency ?? fallback.currency ?? config.financials.defaultCurrency,
+            ticketPriceMin: ticketPrice.min ?? fallback.ticketPriceMin ?? null,
+            ticketPriceMax: ticketPrice.max ?? fallback.ticketPriceMax ?? null,
+            projectedGross: parseMoney(cell(columns.projectedGross)) ?? fallback.projectedGross ?? null,
+            netGuarantee: parseMoney(cell(columns.netGuarantee)) ?? fallback.netGuarantee ?? null,
+            rationale: parseText(cell(columns.rationale)) ?? fallback.rationale ?? null
+          }
+        }
+        
+        const stop: Stop = {
+          id,
+          aliases: resolvedId.aliases,
+          order: stops.length + 1,
+          leg: parseText(cell('leg')) ?? tableName,
+          city,
+          countryCode: place.countryCode,
+          countryName: place.countryName,
+          admin1Code: place.admin1Code,
+          admin1Name: place.admin1Name,
+          region: place.region,
+          venue,
+          capacityMin: capacity.min,
+          capacityMax: capacity.max,
+          lat,
+          lng,
+          geocodeSource: hasOverrideCoords ? 'override' : placed?.source ?? null,
+          geocodeConfidence: hasOverrideCoords ? 1 : placed?.confidence ?? null,
+          date,
+          doorsTime,
+          showTime,
+          timezone: timezone || override.timezone || geocoded?.timezone || null,
+          status,
+          notes: parseText(cell('notes')) ?? override.notes ?? null,
+          financials: {
+            base: financialsFor('base'),
+            upside: financialsFor('upside')
+          }
+        }
+        
+        stops.push(stop)
+        if (resolvedId.status === 'renamed' || resolvedId.status === 'collision') {
+          idChanges.push({ stop, resolved: resolvedId })
+        }
+        if (!hasOverrideCoords) {
+          if (!placed) unplaced.push(stop)
+          else if (placed.confidence < minConfidence) needsReview.push({ stop, result: placed })
+        }
+        console.log(`✅ Processed: ${cityValue} - ${venue} [${tableName}]`)
+      })
+    }
+    
+    if (missingRequired) {
+      console.error('❌ Fix the column headers above (or add aliases to data/columns.json) and re-run')
+      process.exit(1)
+    }
+    
+    if (stops.length === 0) {
+      console.error('❌ No data rows found in any source table')
+      process.exit(1)
+    }
+    
+    const overrideReport = overrides.report()
+    if (overrideReport.unmatched.length > 0) {
+      console.warn(`⚠️  ${overrideReport.unmatched.length} overrides matched no row (check the key, or add "aliases"):`)
+      overrideReport.unmatched.forEach(key => console.warn(`  ${key}`))
+    }
+    if (overrideReport.ambiguous.length > 0) {
+      console.warn(`⚠️  ${overrideReport.ambiguous.length} rows matched more than one override (first one applied):`)
+      overrideReport.ambiguous.forEach(({ row, keys }) => console.warn(`  ${row}: ${keys.join(', ')}`))
+    }
+    if (strictOverrides && (overrideReport.unmatched.length > 0 || overrideReport.ambiguous.length > 0)) {
+      console.error('❌ Override problems above (strict mode); fix stops.override.json and re-run')
+      process.exit(1)
+    }
+    
+    idChanges.forEach(({ stop, resolved }) => {
+      if (resolved.status === 'renamed') {
+        console.log(`🪪 ${stop.city} - ${stop.venue}: kept id ${stop.id} (matches "${resolved.detail}")`)
+      } else {
+        console.warn(`⚠️  Id collision: ${stop.city} - ${stop.venue} would be ${resolved.detail}, which belongs to another venue; registered as ${stop.id}`)
+      }
     })
+    if (await idRegistry.save()) {
+      console.log('🪪 Updated data/stop-ids.json (commit it so ids stay stable)')
+    }
+    
+    // Validate against the schema the app loads with, so a bad row fails here and not in the browser
+    const payload: StopsPayload = {
+      schemaVersion: STOPS_SCHEMA_VERSION,
+      generatedAt: new Date().toISOString(),
+      stops
+    }
+    try {
+      validateStopsPayload(payload)
+    } catch (error) {
+      if (!(error instanceof StopsSchemaError)) throw error
+      console.error(`❌ ${error.message}:`)
+      error.issues.forEach(issue => console.error(`  ${issue.path}: ${issue.message}`))
+      process.exit(1)
+    }
     
     // Ensure output directory exists
-    const outputDir = join(process.cwd(), 'public', 'data')
+    const outputPath = join(process.cwd(), 'public', STOPS_DATA_PATH)
+    const outputDir = dirname(outputPath)
     if (!existsSync(outputDir)) {
       await fs.mkdir(outputDir, { recursive: true })
     }
     
     // Write output JSON
-    const outputPath = join(outputDir, 'stops.v1.json')
-    await fs.writeFile(outputPath, JSON.stringify(stops, null, 2))
+    await fs.writeFile(outputPath, JSON.stringify(payload, null, 2))
     
     console.log(`🎉 Successfully generated ${stops.length} stops`)
     console.log(`📁 Output saved to: ${outputPath}`)
@@ -220,15 +401,50 @@ async function generateStops() {
     // Log summary
     console.log('\n📊 Summary:')
     stops.forEach(stop => {
-      console.log(`  ${stop.order}. ${stop.city}, ${stop.countryCode} - ${stop.venue}`)
+      const where = [stop.city, stop.admin1Code?.split('-')[1], stop.countryCode ?? '??'].filter(Boolean).join(', ')
+      console.log(`  ${stop.order}. ${where} - ${stop.venue} (${stop.leg}, ${stop.region ?? 'no region'})`)
       if (stop.capacityMin && stop.capacityMax) {
         console.log(`     Capacity: ${stop.capacityMin.toLocaleString()} - ${stop.capacityMax.toLocaleString()}`)
       }
       if (stop.lat && stop.lng) {
-        console.log(`     Location: ${stop.lat}, ${stop.lng}`)
+        console.log(`     Location: ${stop.lat}, ${stop.lng} (${stop.geocodeSource}${stop.geocodeSource === 'override' ? '' : `, confidence ${stop.geocodeConfidence}`})`)
+      }
+      const base = stop.financials.base
+      if (base.projectedGross != null) {
+        console.log(`     Gross: ${base.projectedGross.toLocaleString()} ${base.currency}${base.netGuarantee != null ? ` (net/guarantee ${base.netGuarantee.toLocaleString()})` : ''}`)
+      }
+      if (stop.date) {
+        console.log(`     Date: ${stop.date} (doors ${stop.doorsTime ?? 'TBD'}, show ${stop.showTime ?? 'TBD'}${stop.timezone ? `, ${stop.timezone}` : ''})`)
       }
     })
     
+    if (needsReview.length > 0) {
+      console.warn(`\n🔎 ${needsReview.length} stops placed with confidence below ${minConfidence}; confirm them in data/stops.override.json:`)
+      needsReview.forEach(({ stop, result }) => {
+        console.warn(`  ${stop.order}. ${stop.city} - ${stop.venue} → ${result.matched} (${result.source}, ${result.confidence})${result.note ? ` – ${result.note}` : ''}`)
+      })
+    }
+    if (unplaced.length > 0) {
+      console.warn(`\n⚠️  ${unplaced.length} stops have no coordinates (not in data/gazetteer/; add lat/lng overrides):`)
+      unplaced.forEach(stop => console.warn(`  ${stop.order}. ${stop.city} - ${stop.venue}`))
+    }
+
+    // Routing report, with the limits the app uses; it doesn't fail the run
+    const rulesPath = join(process.cwd(), 'public', ROUTING_RULES_DATA_PATH)
+    const routingRules = existsSync(rulesPath)
+      ? validateRoutingRules(JSON.parse(await fs.readFile(rulesPath, 'utf-8')))
+      : DEFAULT_ROUTING_RULES
+    const routingIssues = checkRouting(stops, routingRules)
+    if (routingIssues.length > 0) {
+      console.warn(`\n🧭 ${routingIssues.length} routing issues (limits in public/${ROUTING_RULES_DATA_PATH}):`)
+      routingIssues.forEach(issue => {
+        const stop = stops.find(s => s.id === issue.stopId)!
+        console.warn(`  ${stop.order}. ${stop.city} - ${issue.severity}: ${issue.message}`)
+      })
+    } else {
+      console.log('\n🧭 No routing issues')
+    }
+    
   } catch (error) {
     console.error('❌ Error generating stops:', error)
     process.exit(1)
@@ -0,0 +1,37 @@
+#!/usr/bin/env node
+
+import { createServer } from 'http'
+import { promises as fs } from 'fs'
+import { join } from 'path'
+
+/**
+ * Local stand-in for a routing tool's HTTP API. Serves data/sample-data.json
+ * so the "http" stops source can be exercised without a real endpoint:
+ *
+ *   npm run data:serve-sample
+ *   npm run data:v1 -- --source http --url http://localhost:4175/stops
+ */
+
+const PORT = Number(process.env.PORT) || 4175
+const SAMPLE_PATH = join(process.cwd(), 'data', 'sample-data.json')
+
+const server = createServer(async (req, res) => {
+  if (req.method !== 'GET' || req.url !== '/stops') {
+    res.writeHead(404, { 'Content-Type': 'application/json' })
+    res.end(JSON.stringify({ error: 'Not found. Try GET /stops' }))
+    return
+  }
+
+  try {
+    const body = await fs.readFile(SAMPLE_PATH, 'utf8')
+    res.writeHead(200, { 'Content-Type': 'application/json' })
+    res.end(body)
+  } catch (error) {
+    res.writeHead(500, { 'Content-Type': 'application/json' })
+    res.end(JSON.stringify({ error: String(error) }))
+  }
+})
+
+server.listen(PORT, () => {
+  console.log(`[Sample stops] Serving ${SAMPLE_PATH} at http://localhost:${PORT}/stops`)
+})
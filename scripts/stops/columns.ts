@@ -0,0 +1,92 @@
+import { promises as fs, existsSync } from 'fs'
+
+/**
+ * Header-driven column mapping for the venue spreadsheet.
+ * Maps header names and aliases from data/columns.json to Stop fields,
+ * so inserting or reordering columns can't shift data into the wrong field.
+ */
+
+export interface FieldSpec {
+  /** Header names and aliases that map to this field */
+  headers: string[]
+  required?: boolean
+}
+
+export interface ColumnMapping {
+  fields: { [field: string]: FieldSpec }
+  /** Headers that are known but deliberately not mapped */
+  ignoreHeaders?: string[]
+}
+
+export interface ResolvedColumns {
+  /** Column index for each mapped field found in the header row */
+  columns: { [field: string]: number }
+  /** Non-empty headers that matched neither a field nor the ignore list */
+  unknown: string[]
+  /** Required fields with no matching header */
+  missing: string[]
+  /** Headers that mapped to a field already claimed by an earlier column */
+  duplicates: string[]
+}
+
+/**
+ * Normalizes a header for matching: drops parenthetical notes, case and punctuation.
+ * "Capacity (360 end stage)" -> "capacity", "Cap." -> "cap", "Venue Name" -> "venuename"
+ */
+export function normalizeHeader(header: string): string {
+  return header
+    .replace(/\(.*?\)/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, '')
+}
+
+export async function loadColumnMapping(path: string): Promise<ColumnMapping> {
+  if (!existsSync(path)) {
+    throw new Error(`Column mapping not found at ${path}`)
+  }
+  const mapping = JSON.parse(await fs.readFile(path, 'utf8')) as ColumnMapping
+  if (!mapping.fields || typeof mapping.fields !== 'object') {
+    throw new Error(`Column mapping ${path} has no "fields" object`)
+  }
+  return mapping
+}
+
+/**
+ * Resolves a header row against the mapping
+ */
+export function resolveColumns(headerRow: unknown[], mapping: ColumnMapping): ResolvedColumns {
+  const aliasToField = new Map<string, string>()
+  for (const [field, spec] of Object.entries(mapping.fields)) {
+    for (const header of spec.headers) {
+      aliasToField.set(normalizeHeader(header), field)
+    }
+  }
+  const ignored = new Set((mapping.ignoreHeaders ?? []).map(normalizeHeader))
+
+  const columns: { [field: string]: number } = {}
+  const unknown: string[] = []
+  const duplicates: string[] = []
+
+  headerRow.forEach((cell, index) => {
+    const header = (cell ?? '').toString().trim()
+    if (header === '') return
+
+    const normalized = normalizeHeader(header)
+    const field = aliasToField.get(normalized)
+    if (!field) {
+      if (!ignored.has(normalized)) unknown.push(header)
+      return
+    }
+    if (field in columns) {
+      duplicates.push(header)
+      return
+    }
+    columns[field] = index
+  })
+
+  const missing = Object.entries(mapping.fields)
+    .filter(([field, spec]) => spec.required && !(field in columns))
+    .map(([field]) => field)
+
+  return { columns, unknown, missing, duplicates }
+}
@@ -0,0 +1,237 @@
+import { promises as fs, existsSync } from 'fs'
+import { join } from 'path'
+import type { GeocodeSource } from '../../src/lib/data/types'
+
+/**
+ * Offline geocoding against the gazetteer bundled in data/gazetteer/.
+ * Fills coordinates (and a timezone) for stops that have no override,
+ * with a confidence score so rough matches can be reviewed before publishing.
+ */
+
+export interface GazetteerCity {
+  name: string
+  aliases?: string[]
+  countryCode: string
+  /** ISO 3166-2 subdivision suffix, e.g. "IL" for US-IL */
+  admin1?: string
+  lat: number
+  lng: number
+  timezone: string
+}
+
+export interface GazetteerArena {
+  name: string
+  /** Former and sponsor names, e.g. "Staples Center" */
+  aliases?: string[]
+  city: string
+  countryCode: string
+  lat: number
+  lng: number
+}
+
+/** ISO 3166-1 country with the business region it's booked under */
+export interface GazetteerCountry {
+  /** Alpha-2 code, e.g. "GB" */
+  code: string
+  name: string
+  /** Common non-ISO spellings, e.g. "UK", "USA" */
+  aliases?: string[]
+  region: string
+}
+
+/** ISO 3166-2 subdivision (state, province, constituent country) */
+export interface GazetteerAdmin1 {
+  /** Full code, e.g. "US-IL" */
+  code: string
+  name: string
+}
+
+export interface Gazetteer {
+  cities: GazetteerCity[]
+  arenas: GazetteerArena[]
+  countries: GazetteerCountry[]
+  admin1: GazetteerAdmin1[]
+}
+
+export interface GeocodeResult {
+  lat: number
+  lng: number
+  timezone: string | null
+  source: GeocodeSource
+  /** 0-1; arena matches are venue coordinates, city matches are city centres */
+  confidence: number
+  /** What the stop was matched to, e.g. "United Center, Chicago" */
+  matched: string
+  /** Why confidence was lowered, when it was */
+  note?: string
+}
+
+const CONFIDENCE = {
+  arenaExact: 0.95,
+  arenaPartial: 0.8,
+  arenaOtherCity: 0.6,
+  city: 0.7,
+  cityNoCountry: 0.6,
+  cityAmbiguous: 0.4,
+  cityCountryMismatch: 0.35
+}
+
+export async function loadGazetteer(dir: string): Promise<Gazetteer> {
+  const read = async <T>(file: string): Promise<T[]> => {
+    const path = join(dir, file)
+    if (!existsSync(path)) {
+      throw new Error(`Gazetteer file not found at ${path}`)
+    }
+    return JSON.parse(await fs.readFile(path, 'utf8')) as T[]
+  }
+  return {
+    cities: await read<GazetteerCity>('cities.json'),
+    arenas: await read<GazetteerArena>('arenas.json'),
+    countries: await read<GazetteerCountry>('countries.json'),
+    admin1: await read<GazetteerAdmin1>('admin1.json')
+  }
+}
+
+/**
+ * Normalizes a place name for matching: drops diacritics, case, punctuation and a leading "the".
+ * "The O2" -> "o2", "Bogotá" -> "bogota", "Washington D.C." -> "washington dc"
+ */
+export function normalizePlace(name: string): string {
+  return name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/['.]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+    .replace(/^the /, '')
+}
+
+/**
+ * Splits a sheet value like "Chicago, US" into the city and its country suffix.
+ * The suffix is returned as written; resolve it with findCountry.
+ */
+export function splitCityCountry(value: string): { city: string; country: string | null } {
+  const match = value.match(/^(.*?),\s*([^,]+?)\s*$/)
+  if (!match) return { city: value.trim(), country: null }
+  return { city: match[1].trim(), country: match[2] }
+}
+
+export function namesOf(entry: { name: string; aliases?: string[] }): string[] {
+  return [entry.name, ...(entry.aliases ?? [])].map(normalizePlace)
+}
+
+function findCities(gazetteer: Gazetteer, city: string): GazetteerCity[] {
+  const key = normalizePlace(city)
+  return gazetteer.cities.filter(entry => namesOf(entry).includes(key))
+}
+
+function sameCity(gazetteer: Gazetteer, a: string, b: string): boolean {
+  if (normalizePlace(a) === normalizePlace(b)) return true
+  return findCities(gazetteer, a).some(entry => namesOf(entry).includes(normalizePlace(b)))
+}
+
+function matchArena(
+  gazetteer: Gazetteer,
+  city: string,
+  countryCode: string | null,
+  venue: string
+): GeocodeResult | null {
+  const key = normalizePlace(venue)
+  if (!key || key === 'tbd') return null
+
+  let best: GeocodeResult | null = null
+  for (const arena of gazetteer.arenas) {
+    const names = namesOf(arena)
+    const exact = names.includes(key)
+    // "O2 Victoria Warehouse Manchester" still finds "Victoria Warehouse"
+    const partial = !exact && names.some(name => (` ${key} `).includes(` ${name} `) || (` ${name} `).includes(` ${key} `))
+    if (!exact && !partial) continue
+
+    const inCity = sameCity(gazetteer, arena.city, city)
+    const inCountry = !countryCode || countryCode === arena.countryCode
+    let confidence: number
+    let note: string | undefined
+    if (inCity && inCountry) {
+      confidence = exact ? CONFIDENCE.arenaExact : CONFIDENCE.arenaPartial
+      if (partial) note = `venue name only partly matches "${arena.name}"`
+    } else if (inCity) {
+      confidence = CONFIDENCE.arenaOtherCity
+      note = `country "${countryCode}" doesn't match ${arena.name} (${arena.countryCode})`
+    } else if (exact && inCountry && countryCode) {
+      // Same arena name elsewhere in the country, e.g. a suburb listed under the metro name
+      confidence = CONFIDENCE.arenaOtherCity
+      note = `arena is listed in ${arena.city}, not ${city}`
+    } else {
+      continue
+    }
+
+    if (!best || confidence > best.confidence) {
+      const host = gazetteer.cities.find(entry => entry.countryCode === arena.countryCode && namesOf(entry).includes(normalizePlace(arena.city)))
+      best = {
+        lat: arena.lat,
+        lng: arena.lng,
+        timezone: host?.timezone ?? null,
+        source: 'arena',
+        confidence,
+        matched: `${arena.name}, ${arena.city}`,
+        note
+      }
+    }
+  }
+  return best
+}
+
+function matchCity(gazetteer: Gazetteer, city: string, countryCode: string | null): GeocodeResult | null {
+  const candidates = findCities(gazetteer, city)
+  if (candidates.length === 0) return null
+
+  const toResult = (entry: GazetteerCity, confidence: number, note?: string): GeocodeResult => ({
+    lat: entry.lat,
+    lng: entry.lng,
+    timezone: entry.timezone,
+    source: 'city',
+    confidence,
+    matched: `${entry.name}, ${entry.countryCode}`,
+    note
+  })
+  const describe = (entries: GazetteerCity[]) => entries.map(entry => `${entry.name}, ${entry.countryCode}`).join(' / ')
+
+  if (countryCode) {
+    const inCountry = candidates.filter(entry => entry.countryCode === countryCode)
+    if (inCountry.length === 1) return toResult(inCountry[0], CONFIDENCE.city)
+    if (inCountry.length > 1) {
+      return toResult(inCountry[0], CONFIDENCE.cityAmbiguous, `ambiguous: ${describe(inCountry)}`)
+    }
+    return toResult(
+      candidates[0],
+      CONFIDENCE.cityCountryMismatch,
+      `country "${countryCode}" doesn't match ${describe(candidates)}`
+    )
+  }
+
+  if (candidates.length === 1) {
+    return toResult(candidates[0], CONFIDENCE.cityNoCountry, 'no country given')
+  }
+  return toResult(candidates[0], CONFIDENCE.cityAmbiguous, `ambiguous: ${describe(candidates)}`)
+}
+
+/**
+ * Geocodes a stop from its city, ISO country code (when known) and venue.
+ * Prefers a known arena in that city; otherwise falls back to the city centre.
+ * Returns null when neither is in the gazetteer.
+ */
+export function geocodeStop(
+  gazetteer: Gazetteer,
+  city: string,
+  countryCode: string | null,
+  venue: string
+): GeocodeResult | null {
+  const arena = matchArena(gazetteer, city, countryCode, venue)
+  const cityMatch = matchCity(gazetteer, city, countryCode)
+  if (arena && (!cityMatch || arena.confidence >= cityMatch.confidence)) {
+    return arena
+  }
+  return cityMatch
+}
@@ -0,0 +1,90 @@
+import { promises as fs, existsSync } from 'fs'
+import type { FinancialBasis, StopFinancials } from '../../src/lib/data/types'
+import type { Gazetteer } from './geocode'
+import { venueKey } from './places'
+
+/**
+ * Override lookup for data/stops.override.json. Entries may be keyed by
+ * "City+Venue" (matched ignoring case, punctuation, diacritics and a country
+ * suffix) or by stop id, and may list extra `aliases` in either form.
+ */
+
+export interface Override {
+  lat?: number
+  lng?: number
+  timezone?: string
+  /** Used when the sheet's Notes cell is empty */
+  notes?: string
+  /** Base and upside figures, used where the sheet leaves them blank */
+  financials?: { [B in FinancialBasis]?: Partial<StopFinancials> }
+  /** Extra keys ("City+Venue" or stop id) this entry should also match */
+  aliases?: string[]
+  [key: string]: any
+}
+
+export interface OverrideMatch {
+  override: Override
+  /** The override entry's key in stops.override.json */
+  key: string
+}
+
+export async function loadOverrides(path: string): Promise<{ [key: string]: Override }> {
+  if (!existsSync(path)) return {}
+  return JSON.parse(await fs.readFile(path, 'utf8'))
+}
+
+export class OverrideMatcher {
+  private gazetteer: Gazetteer
+  private entries: { key: string; override: Override; matchKeys: string[] }[]
+  private used = new Set<string>()
+  private ambiguous: { row: string; keys: string[] }[] = []
+
+  constructor(overrides: { [key: string]: Override }, gazetteer: Gazetteer) {
+    this.gazetteer = gazetteer
+    this.entries = Object.entries(overrides).map(([key, override]) => ({
+      key,
+      override,
+      matchKeys: [key, ...(override.aliases ?? [])].map(k => this.normalizeKey(k))
+    }))
+  }
+
+  /**
+   * "Chicago, US+United Center" and "chicago+the united center" both become
+   * "chicago+united center"; a key without "+" is taken as a stop id.
+   */
+  private normalizeKey(key: string): string {
+    const plus = key.indexOf('+')
+    if (plus === -1) return `id:${key.trim().toLowerCase()}`
+    return venueKey(this.gazetteer, key.slice(0, plus), key.slice(plus + 1))
+  }
+
+  /**
+   * Finds the override for a row by stop id (or id alias) or by city and venue.
+   * When several entries match, the first in file order wins and the row is
+   * reported by `report()`.
+   */
+  match(stopIds: string[], cityValue: string, venue: string): OverrideMatch | null {
+    const rowKeys = [
+      ...stopIds.map(id => `id:${id.toLowerCase()}`),
+      venueKey(this.gazetteer, cityValue, venue)
+    ]
+    const matches = this.entries.filter(entry => entry.matchKeys.some(k => rowKeys.includes(k)))
+    if (matches.length === 0) return null
+
+    matches.forEach(entry => this.used.add(entry.key))
+    if (matches.length > 1) {
+      this.ambiguous.push({ row: `${cityValue} - ${venue}`, keys: matches.map(entry => entry.key) })
+    }
+    return { override: matches[0].override, key: matches[0].key }
+  }
+
+  /**
+   * Overrides that matched no row, and rows that matched more than one override
+   */
+  report(): { unmatched: string[]; ambiguous: { row: string; keys: string[] }[] } {
+    return {
+      unmatched: this.entries.filter(entry => !this.used.has(entry.key)).map(entry => entry.key),
+      ambiguous: this.ambiguous
+    }
+  }
+}
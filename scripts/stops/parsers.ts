@@ -0,0 +1,189 @@
+// Handle both CommonJS and ESM imports for xlsx
+import XLSXModule from 'xlsx'
+const XLSX = XLSXModule.default || XLSXModule
+import type { StopStatus } from '../../src/lib/data/types'
+
+/**
+ * Cell parsers for the stops generator. Each takes a raw spreadsheet cell
+ * (string, number or empty) and returns a typed value or null.
+ */
+
+export function parseCapacity(capacityStr: string): { min: number | null; max: number | null } {
+  if (!capacityStr || capacityStr.trim() === '' || capacityStr.toLowerCase() === 'tbd') {
+    return { min: null, max: null }
+  }
+
+  // Remove commas and clean the string
+  const cleaned = capacityStr.replace(/,/g, '').trim()
+  
+  // Check for range format like "13500 - 16500" or "13500-16500"
+  const rangeMatch = cleaned.match(/(\d+)\s*-\s*(\d+)/)
+  if (rangeMatch) {
+    return {
+      min: parseInt(rangeMatch[1]),
+      max: parseInt(rangeMatch[2])
+    }
+  }
+  
+  // Check for single number
+  const singleMatch = cleaned.match(/(\d+)/)
+  if (singleMatch) {
+    const capacity = parseInt(singleMatch[1])
+    return { min: capacity, max: capacity }
+  }
+  
+  return { min: null, max: null }
+}
+
+const pad2 = (n: number) => n.toString().padStart(2, '0')
+
+/**
+ * Parses a show date cell into YYYY-MM-DD.
+ * Accepts Excel date serials, ISO dates and US-style M/D/YYYY strings.
+ */
+export function parseDate(value: unknown): string | null {
+  if (value == null || value === '') return null
+
+  if (typeof value === 'number') {
+    const parsed = XLSX.SSF.parse_date_code(value)
+    if (!parsed) return null
+    return `${parsed.y}-${pad2(parsed.m)}-${pad2(parsed.d)}`
+  }
+
+  const str = value.toString().trim()
+  if (str === '' || str.toLowerCase() === 'tbd') return null
+
+  const isoMatch = str.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/)
+  if (isoMatch) {
+    return `${isoMatch[1]}-${pad2(parseInt(isoMatch[2]))}-${pad2(parseInt(isoMatch[3]))}`
+  }
+
+  const usMatch = str.match(/^(\d{1,2})\/(\d{1,2})\/(\d{2}|\d{4})$/)
+  if (usMatch) {
+    const year = usMatch[3].length === 2 ? 2000 + parseInt(usMatch[3]) : parseInt(usMatch[3])
+    return `${year}-${pad2(parseInt(usMatch[1]))}-${pad2(parseInt(usMatch[2]))}`
+  }
+
+  return null
+}
+
+/**
+ * Parses a time cell into 24h HH:mm.
+ * Accepts Excel day fractions (0.8333 = 20:00), "20:00", "8:00 PM" and "8pm".
+ */
+export function parseTime(value: unknown): string | null {
+  if (value == null || value === '') return null
+
+  if (typeof value === 'number') {
+    const minutes = Math.round((value % 1) * 24 * 60) % (24 * 60)
+    return `${pad2(Math.floor(minutes / 60))}:${pad2(minutes % 60)}`
+  }
+
+  const str = value.toString().trim().toLowerCase()
+  const match = str.match(/^(\d{1,2})(?::(\d{2}))?\s*(am|pm)?$/)
+  if (!match) return null
+
+  let hours = parseInt(match[1])
+  const minutes = match[2] ? parseInt(match[2]) : 0
+  if (match[3] === 'pm' && hours < 12) hours += 12
+  if (match[3] === 'am' && hours === 12) hours = 0
+  if (hours > 23 || minutes > 59) return null
+
+  return `${pad2(hours)}:${pad2(minutes)}`
+}
+
+/**
+ * Validates an IANA timezone name (e.g. "America/Chicago")
+ */
+export function parseTimezone(value: unknown): string | null {
+  const str = (value ?? '').toString().trim()
+  if (str === '') return null
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: str })
+    return str
+  } catch {
+    return null
+  }
+}
+
+const STATUS_ALIASES: { [key: string]: StopStatus } = {
+  'confirmed': 'confirmed',
+  'conf': 'confirmed',
+  'on sale': 'confirmed',
+  'announced': 'confirmed',
+  'hold': 'hold',
+  '1st hold': 'hold',
+  '2nd hold': 'hold',
+  'first hold': 'hold',
+  'second hold': 'hold',
+  'offer': 'offer',
+  'offer out': 'offer',
+  'pending': 'offer',
+  'cancelled': 'cancelled',
+  'canceled': 'cancelled',
+  'cxl': 'cancelled'
+}
+
+/**
+ * Parses a booking status cell ("Confirmed", "1st Hold", "Offer Out", "CXL")
+ */
+export function parseStatus(value: unknown): StopStatus | null {
+  const str = (value ?? '').toString().trim().toLowerCase()
+  if (str === '' || str === 'tbd') return null
+  return STATUS_ALIASES[str] ?? null
+}
+
+/**
+ * Parses a money cell into a plain number.
+ * Accepts "$2.1M", "850K", "1,200,000" or a numeric cell.
+ */
+export function parseMoney(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null
+
+  const str = (value ?? '').toString().trim()
+  if (str === '' || str.toLowerCase() === 'tbd') return null
+
+  const match = str.replace(/,/g, '').match(/(\d+(?:\.\d+)?)\s*([kKmM])?/)
+  if (!match) return null
+
+  const amount = parseFloat(match[1])
+  const suffix = match[2]?.toLowerCase()
+  if (suffix === 'm') return amount * 1_000_000
+  if (suffix === 'k') return amount * 1_000
+  return amount
+}
+
+/**
+ * Parses a ticket price cell, either a single price or a range like "$85-$250"
+ */
+export function parsePriceRange(value: unknown): { min: number | null; max: number | null } {
+  if (typeof value === 'number') return { min: value, max: value }
+
+  const str = (value ?? '').toString().trim()
+  const parts = str.split(/\s*(?:-|–|to)\s*/).filter(Boolean)
+  if (parts.length === 2) {
+    const min = parseMoney(parts[0])
+    const max = parseMoney(parts[1])
+    if (min != null && max != null) return { min, max }
+  }
+
+  const single = parseMoney(str)
+  return { min: single, max: single }
+}
+
+/**
+ * Trims a free-text cell, treating blanks and "TBD" as missing
+ */
+export function parseText(value: unknown): string | null {
+  const str = (value ?? '').toString().trim()
+  if (str === '' || str.toLowerCase() === 'tbd') return null
+  return str
+}
+
+/**
+ * Parses an ISO 4217 currency cell ("usd", "CAD"); anything else is null
+ */
+export function parseCurrency(value: unknown): string | null {
+  const str = parseText(value)?.toUpperCase() ?? ''
+  return /^[A-Z]{3}$/.test(str) ? str : null
+}
@@ -0,0 +1,154 @@
+import {
+  namesOf,
+  normalizePlace,
+  splitCityCountry,
+  type Gazetteer,
+  type GazetteerAdmin1,
+  type GazetteerCity,
+  type GazetteerCountry
+} from './geocode'
+
+/**
+ * Country, state/province and region resolution against the bundled
+ * ISO 3166 datasets in data/gazetteer/ (countries.json, admin1.json).
+ */
+
+export type CountrySource = 'column' | 'city' | 'coordinates'
+
+export interface ResolvedPlace {
+  countryCode: string | null
+  countryName: string | null
+  /** ISO 3166-2 code, e.g. "US-IL" */
+  admin1Code: string | null
+  admin1Name: string | null
+  /** Business region from countries.json, e.g. "Europe" */
+  region: string | null
+  countrySource: CountrySource | null
+}
+
+/** Reverse lookups only trust a gazetteer city this close to the stop */
+const NEAREST_CITY_MAX_KM = 150
+
+/**
+ * Finds a country by alpha-2 code, name or alias ("GB", "United Kingdom", "UK")
+ */
+export function findCountry(gazetteer: Gazetteer, value: string): GazetteerCountry | null {
+  const code = value.trim().toUpperCase()
+  const byCode = gazetteer.countries.find(country => country.code === code)
+  if (byCode) return byCode
+  const key = normalizePlace(value)
+  return gazetteer.countries.find(country => namesOf(country).includes(key)) ?? null
+}
+
+/**
+ * Finds a subdivision of a country by code ("IL" or "US-IL") or name ("Illinois")
+ */
+export function findAdmin1(gazetteer: Gazetteer, countryCode: string, value: string): GazetteerAdmin1 | null {
+  const code = value.trim().toUpperCase()
+  const fullCode = code.includes('-') ? code : `${countryCode}-${code}`
+  const inCountry = gazetteer.admin1.filter(entry => entry.code.startsWith(`${countryCode}-`))
+  return inCountry.find(entry => entry.code === fullCode)
+    ?? inCountry.find(entry => normalizePlace(entry.name) === normalizePlace(value))
+    ?? null
+}
+
+function distanceKm(lat1: number, lng1: number, lat2: number, lng2: number): number {
+  const toRad = (deg: number) => deg * Math.PI / 180
+  const dLat = toRad(lat2 - lat1)
+  const dLng = toRad(lng2 - lng1)
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLng / 2) ** 2
+  return 6371 * 2 * Math.asin(Math.sqrt(a))
+}
+
+/**
+ * Closest gazetteer city to a point, optionally within one country
+ */
+export function nearestCity(
+  gazetteer: Gazetteer,
+  lat: number,
+  lng: number,
+  countryCode?: string
+): GazetteerCity | null {
+  let best: GazetteerCity | null = null
+  let bestKm = NEAREST_CITY_MAX_KM
+  for (const city of gazetteer.cities) {
+    if (countryCode && city.countryCode !== countryCode) continue
+    const km = distanceKm(lat, lng, city.lat, city.lng)
+    if (km <= bestKm) {
+      best = city
+      bestKm = km
+    }
+  }
+  return best
+}
+
+/**
+ * Splits "Chicago, US" into the bare city and its country. A two-letter suffix
+ * that isn't a known country is still stripped and reported as `unknownCountry`;
+ * any other unrecognised suffix is treated as part of the city name.
+ */
+export function parseCityValue(
+  gazetteer: Gazetteer,
+  value: string
+): { city: string; country: GazetteerCountry | null; unknownCountry: string | null } {
+  const split = splitCityCountry(value)
+  if (!split.country) return { city: split.city, country: null, unknownCountry: null }
+
+  const country = findCountry(gazetteer, split.country)
+  if (country) return { city: split.city, country, unknownCountry: null }
+  if (/^[A-Za-z]{2}$/.test(split.country)) {
+    return { city: split.city, country: null, unknownCountry: split.country }
+  }
+  return { city: value.trim(), country: null, unknownCountry: null }
+}
+
+/**
+ * Matching key for a venue row: "Chicago, US" + "The United Center" -> "chicago+united center".
+ * Case, punctuation, accents and the country suffix don't change it.
+ */
+export function venueKey(gazetteer: Gazetteer, cityValue: string, venue: string): string {
+  return `${normalizePlace(parseCityValue(gazetteer, cityValue).city)}+${normalizePlace(venue)}`
+}
+
+/**
+ * Resolves country, admin-1 and region for a stop. The country comes from an
+ * explicit column or the city suffix when given, else from the nearest gazetteer
+ * city to the coordinates; admin-1 likewise comes from a column or the coordinates.
+ */
+export function resolvePlace(
+  gazetteer: Gazetteer,
+  input: {
+    country: GazetteerCountry | null
+    countrySource: CountrySource | null
+    admin1: string | null
+    lat: number | null
+    lng: number | null
+  }
+): ResolvedPlace {
+  const hasCoords = input.lat != null && input.lng != null
+  let country = input.country
+  let countrySource = country ? input.countrySource : null
+
+  if (!country && hasCoords) {
+    const near = nearestCity(gazetteer, input.lat!, input.lng!)
+    country = near ? gazetteer.countries.find(entry => entry.code === near.countryCode) ?? null : null
+    if (country) countrySource = 'coordinates'
+  }
+
+  let admin1: GazetteerAdmin1 | null = null
+  if (country && input.admin1) {
+    admin1 = findAdmin1(gazetteer, country.code, input.admin1)
+  } else if (country && hasCoords) {
+    const near = nearestCity(gazetteer, input.lat!, input.lng!, country.code)
+    if (near?.admin1) admin1 = findAdmin1(gazetteer, country.code, near.admin1)
+  }
+
+  return {
+    countryCode: country?.code ?? null,
+    countryName: country?.name ?? null,
+    admin1Code: admin1?.code ?? null,
+    admin1Name: admin1?.name ?? null,
+    region: country?.region ?? null,
+    countrySource
+  }
+}
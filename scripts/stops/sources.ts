@@ -0,0 +1,220 @@
+// Handle both CommonJS and ESM imports for xlsx
+import XLSXModule from 'xlsx'
+const XLSX = XLSXModule.default || XLSXModule
+import { promises as fs, existsSync } from 'fs'
+import { basename, extname, isAbsolute, join } from 'path'
+import fetch from 'node-fetch'
+
+/**
+ * Source adapters for the stops generator. Every adapter reads its input into
+ * header-first tables, so column mapping, parsing and overrides run the same
+ * way no matter where the routing data lives.
+ */
+
+export type SourceType = 'xlsx' | 'csv' | 'json' | 'http'
+
+export interface SourceConfig {
+  type: SourceType
+  /** File path (xlsx, csv, json), relative to the repo root */
+  path?: string
+  /** Endpoint returning a JSON array of stop records (http) */
+  url?: string
+  /** Extra request headers (http), e.g. an Authorization token */
+  headers?: { [name: string]: string }
+  /** Regex (case-insensitive) selecting workbook sheets to ingest (xlsx) */
+  sheetPattern?: string
+}
+
+/**
+ * One table of rows: `rows[0]` is the header row. `name` becomes the stop's
+ * leg unless the rows carry their own leg column.
+ */
+export interface SourceTable {
+  name: string
+  rows: unknown[][]
+}
+
+export interface StopSource {
+  describe(): string
+  readTables(): Promise<SourceTable[]>
+}
+
+export const SOURCE_TYPES: SourceType[] = ['xlsx', 'csv', 'json', 'http']
+
+function resolvePath(path: string): string {
+  return isAbsolute(path) ? path : join(process.cwd(), path)
+}
+
+function requirePath(config: SourceConfig): string {
+  if (!config.path) {
+    throw new Error(`Source "${config.type}" needs a path (set source.path or pass --input)`)
+  }
+  const fullPath = resolvePath(config.path)
+  if (!existsSync(fullPath)) {
+    throw new Error(`Source file not found at: ${fullPath}`)
+  }
+  return fullPath
+}
+
+/**
+ * Turns an array of JSON records into a header-first table.
+ * Headers are the union of record keys, in first-seen order.
+ */
+function recordsToRows(records: unknown[]): unknown[][] {
+  const headers: string[] = []
+  for (const record of records) {
+    if (record && typeof record === 'object' && !Array.isArray(record)) {
+      for (const key of Object.keys(record)) {
+        if (!headers.includes(key)) headers.push(key)
+      }
+    }
+  }
+  const rows = records.map(record => {
+    const obj = (record && typeof record === 'object' ? record : {}) as { [key: string]: unknown }
+    return headers.map(h => obj[h] ?? null)
+  })
+  return [headers, ...rows]
+}
+
+/**
+ * Accepts either a bare array of records or an object wrapping one under `stops` or `data`
+ */
+function extractRecords(payload: unknown, origin: string): unknown[] {
+  if (Array.isArray(payload)) return payload
+  if (payload && typeof payload === 'object') {
+    const wrapped = payload as { stops?: unknown; data?: unknown }
+    if (Array.isArray(wrapped.stops)) return wrapped.stops
+    if (Array.isArray(wrapped.data)) return wrapped.data
+  }
+  throw new Error(`Expected a JSON array of stop records from ${origin}`)
+}
+
+class XlsxSource implements StopSource {
+  private config: SourceConfig
+
+  constructor(config: SourceConfig) {
+    this.config = config
+  }
+
+  describe(): string {
+    return `Excel workbook ${this.config.path}`
+  }
+
+  async readTables(): Promise<SourceTable[]> {
+    const workbook = XLSX.readFile(requirePath(this.config))
+    const pattern = new RegExp(this.config.sheetPattern ?? '.*', 'i')
+    const sheetNames = workbook.SheetNames.filter(name => pattern.test(name))
+
+    if (sheetNames.length === 0) {
+      throw new Error(`No sheets match pattern ${pattern} (available: ${workbook.SheetNames.join(', ')})`)
+    }
+
+    return sheetNames.map(name => ({
+      name,
+      rows: XLSX.utils.sheet_to_json(workbook.Sheets[name], { header: 1 }) as unknown[][]
+    }))
+  }
+}
+
+class CsvSource implements StopSource {
+  private config: SourceConfig
+
+  constructor(config: SourceConfig) {
+    this.config = config
+  }
+
+  describe(): string {
+    return `CSV file ${this.config.path}`
+  }
+
+  async readTables(): Promise<SourceTable[]> {
+    const fullPath = requirePath(this.config)
+    const text = await fs.readFile(fullPath, 'utf8')
+    // raw keeps cells as written so "19:00" or "2026-03-14" reach the parsers untouched
+    const workbook = XLSX.read(text, { type: 'string', raw: true })
+    const sheet = workbook.Sheets[workbook.SheetNames[0]]
+    return [{
+      name: basename(fullPath, extname(fullPath)),
+      rows: XLSX.utils.sheet_to_json(sheet, { header: 1 }) as unknown[][]
+    }]
+  }
+}
+
+class JsonFileSource implements StopSource {
+  private config: SourceConfig
+
+  constructor(config: SourceConfig) {
+    this.config = config
+  }
+
+  describe(): string {
+    return `JSON file ${this.config.path}`
+  }
+
+  async readTables(): Promise<SourceTable[]> {
+    const fullPath = requirePath(this.config)
+    const payload = JSON.parse(await fs.readFile(fullPath, 'utf8'))
+    return [{
+      name: basename(fullPath, extname(fullPath)),
+      rows: recordsToRows(extractRecords(payload, fullPath))
+    }]
+  }
+}
+
+class HttpJsonSource implements StopSource {
+  private config: SourceConfig
+
+  constructor(config: SourceConfig) {
+    this.config = config
+  }
+
+  describe(): string {
+    return `HTTP endpoint ${this.config.url}`
+  }
+
+  async readTables(): Promise<SourceTable[]> {
+    const url = this.config.url
+    if (!url) {
+      throw new Error('Source "http" needs a url (set source.url or pass --url)')
+    }
+
+    const response = await fetch(url, {
+      headers: { Accept: 'application/json', ...this.config.headers }
+    })
+    if (!response.ok) {
+      throw new Error(`HTTP source error: ${response.status} ${response.statusText} (${url})`)
+    }
+
+    const payload = await response.json()
+    return [{
+      name: new URL(url).hostname,
+      rows: recordsToRows(extractRecords(payload, url))
+    }]
+  }
+}
+
+export function createSource(config: SourceConfig): StopSource {
+  switch (config.type) {
+    case 'xlsx':
+      return new XlsxSource(config)
+    case 'csv':
+      return new CsvSource(config)
+    case 'json':
+      return new JsonFileSource(config)
+    case 'http':
+      return new HttpJsonSource(config)
+    default:
+      throw new Error(`Unknown source type "${config.type}" (expected ${SOURCE_TYPES.join(', ')})`)
+  }
+}
+
+/**
+ * Guesses the adapter from a file extension (used when only --input is given)
+ */
+export function inferSourceType(path: string): SourceType | null {
+  const ext = extname(path).toLowerCase()
+  if (ext === '.xlsx' || ext === '.xls') return 'xlsx'
+  if (ext === '.csv') return 'csv'
+  if (ext === '.json') return 'json'
+  return null
+}
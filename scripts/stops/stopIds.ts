@@ -0,0 +1,151 @@
+import { promises as fs, existsSync } from 'fs'
+import type { Gazetteer } from './geocode'
+import { venueKey } from './places'
+
+/**
+ * Persisted stop id registry (data/stop-ids.json). Once a venue has an id it
+ * keeps it: corrected spellings and format changes map back to the registered
+ * id, and the ids they would have generated are recorded as aliases so assets
+ * saved under an old id (buildings, overrides) still resolve.
+ */
+
+export interface StopIdEntry {
+  /** Venue keys ("chicago+united center") that resolve to this id */
+  keys: string[]
+  /** Earlier or alternative ids for the same venue */
+  aliases: string[]
+}
+
+export type StopIdRegistryFile = { [id: string]: StopIdEntry }
+
+export type StopIdStatus = 'known' | 'renamed' | 'new' | 'collision'
+
+export interface ResolvedStopId {
+  id: string
+  aliases: string[]
+  status: StopIdStatus
+  /** For renamed and collision: the registered id or key involved */
+  detail?: string
+}
+
+/** Venue names at least this similar (same city) are treated as a corrected spelling */
+const RENAME_SIMILARITY = 0.8
+
+export function generateStopId(city: string, venue: string): string {
+  const cleanCity = city.replace(/[^a-zA-Z0-9]/g, '').toLowerCase()
+  const cleanVenue = venue.replace(/[^a-zA-Z0-9]/g, '').toLowerCase()
+  return `${cleanCity}-${cleanVenue}`
+}
+
+function similarity(a: string, b: string): number {
+  if (a === b) return 1
+  const prev = Array.from({ length: b.length + 1 }, (_, j) => j)
+  for (let i = 1; i <= a.length; i++) {
+    let diag = prev[0]
+    prev[0] = i
+    for (let j = 1; j <= b.length; j++) {
+      const next = Math.min(prev[j] + 1, prev[j - 1] + 1, diag + (a[i - 1] === b[j - 1] ? 0 : 1))
+      diag = prev[j]
+      prev[j] = next
+    }
+  }
+  return 1 - prev[b.length] / Math.max(a.length, b.length)
+}
+
+export class StopIdRegistry {
+  private path: string
+  private gazetteer: Gazetteer
+  private entries: StopIdRegistryFile
+  private dirty = false
+
+  private constructor(path: string, gazetteer: Gazetteer, entries: StopIdRegistryFile) {
+    this.path = path
+    this.gazetteer = gazetteer
+    this.entries = entries
+  }
+
+  static async load(path: string, gazetteer: Gazetteer): Promise<StopIdRegistry> {
+    const entries = existsSync(path)
+      ? JSON.parse(await fs.readFile(path, 'utf8')) as StopIdRegistryFile
+      : {}
+    return new StopIdRegistry(path, gazetteer, entries)
+  }
+
+  /**
+   * Resolves the id for a row, registering new venues, spellings and aliases
+   */
+  resolve(cityValue: string, venue: string): ResolvedStopId {
+    const key = venueKey(this.gazetteer, cityValue, venue)
+    const generated = generateStopId(cityValue, venue)
+    const found = this.findByKey(key) ?? this.findByGenerated(generated, key) ?? this.findRenamed(key)
+
+    if (found) {
+      const entry = this.entries[found.id]
+      if (!entry.keys.includes(key)) {
+        entry.keys.push(key)
+        this.dirty = true
+      }
+      if (generated !== found.id && !entry.aliases.includes(generated)) {
+        entry.aliases.push(generated)
+        this.dirty = true
+      }
+      return { id: found.id, aliases: entry.aliases, status: found.status, detail: found.detail }
+    }
+
+    // New venue; if a different venue already owns the generated id, register a suffixed one
+    let id = generated
+    for (let n = 2; this.isTaken(id); n++) id = `${generated}-${n}`
+    this.entries[id] = { keys: [key], aliases: [] }
+    this.dirty = true
+    return id === generated
+      ? { id, aliases: [], status: 'new' }
+      : { id, aliases: [], status: 'collision', detail: generated }
+  }
+
+  /**
+   * Writes the registry back when this run added ids, keys or aliases
+   */
+  async save(): Promise<boolean> {
+    if (!this.dirty) return false
+    const sorted: StopIdRegistryFile = {}
+    for (const id of Object.keys(this.entries).sort()) sorted[id] = this.entries[id]
+    await fs.writeFile(this.path, JSON.stringify(sorted, null, 2) + '\n')
+    this.dirty = false
+    return true
+  }
+
+  private isTaken(id: string): boolean {
+    return id in this.entries || Object.values(this.entries).some(entry => entry.aliases.includes(id))
+  }
+
+  private findByKey(key: string): { id: string; status: StopIdStatus; detail?: string } | null {
+    const id = Object.keys(this.entries).find(id => this.entries[id].keys.includes(key))
+    return id ? { id, status: 'known' } : null
+  }
+
+  /**
+   * The generated id (or a recorded alias) is registered. It's the same venue when
+   * the names are close; otherwise it's a collision and the caller registers a new id.
+   */
+  private findByGenerated(generated: string, key: string): { id: string; status: StopIdStatus; detail?: string } | null {
+    const id = Object.keys(this.entries).find(id => id === generated || this.entries[id].aliases.includes(generated))
+    if (!id) return null
+    const close = this.entries[id].keys.some(known => similarity(known, key) >= RENAME_SIMILARITY)
+    return close || this.entries[id].keys.length === 0 ? { id, status: 'known' } : null
+  }
+
+  /**
+   * A corrected spelling of a registered venue in the same city
+   */
+  private findRenamed(key: string): { id: string; status: StopIdStatus; detail?: string } | null {
+    const [city, venue] = key.split('+')
+    const candidates = Object.keys(this.entries).flatMap(id =>
+      this.entries[id].keys
+        .filter(known => known.split('+')[0] === city && similarity(known.split('+')[1], venue) >= RENAME_SIMILARITY)
+        .map(known => ({ id, known }))
+    )
+    const ids = new Set(candidates.map(candidate => candidate.id))
+    if (ids.size !== 1) return null
+    return { id: candidates[0].id, status: 'renamed', detail: candidates[0].known }
+  }
+}
@@ -1,41 +1,65 @@
 import * as fs from 'fs'
 import * as path from 'path'
 
-// Simple test to generate stops.v1.json without Excel
+// Simple test to generate stops.json (schema v3, see src/lib/data/schema.ts) without Excel
 const testStops = [
   {
-    id: 'chicago-unitedcenter',
+    id: 'chicagous-unitedcenter',
+    aliases: ['chicago-unitedcenter'],
     order: 1,
+    leg: 'US & CAN',
     city: 'Chicago',
     countryCode: 'US',
+    countryName: 'United States',
+    admin1Code: 'US-IL',
+    admin1Name: 'Illinois',
+    region: 'North America',
     venue: 'United Center',
     capacityMin: 23500,
     capacityMax: 23500,
     lat: 41.8806908,
     lng: -87.6741759,
-    bullets: [
-      'Ticket Price: TBD',
-      'Gross Revenue: TBD',
-      'Net/Guarantee: TBD',
-      'Notes: Premium venue in downtown Chicago'
-    ]
+    geocodeSource: 'override',
+    geocodeConfidence: 1,
+    date: null,
+    doorsTime: null,
+    showTime: null,
+    timezone: 'America/Chicago',
+    status: null,
+    notes: 'Premium venue in downtown Chicago',
+    financials: {
+      base: { currency: 'USD', ticketPriceMin: null, ticketPriceMax: null, projectedGross: null, netGuarantee: null, rationale: null },
+      upside: { currency: 'USD', ticketPriceMin: null, ticketPriceMax: null, projectedGross: null, netGuarantee: null, rationale: null }
+    }
   },
   {
-    id: 'toronto-scotiabankarea',
+    id: 'torontoca-scotiabankarena',
+    aliases: ['toronto-scotiabankarea', 'toronto-scotiabankarena'],
     order: 2,
+    leg: 'US & CAN',
     city: 'Toronto',
     countryCode: 'CA',
+    countryName: 'Canada',
+    admin1Code: 'CA-ON',
+    admin1Name: 'Ontario',
+    region: 'North America',
     venue: 'Scotiabank Arena',
     capacityMin: 19800,
     capacityMax: 19800,
     lat: 43.64343375,
     lng: -79.3790777248373,
-    bullets: [
-      'Ticket Price: TBD',
-      'Gross Revenue: TBD',
-      'Net/Guarantee: TBD',
-      'Notes: Major arena in Toronto\'s entertainment district'
-    ]
+    geocodeSource: 'override',
+    geocodeConfidence: 1,
+    date: null,
+    doorsTime: null,
+    showTime: null,
+    timezone: 'America/Toronto',
+    status: null,
+    notes: 'Major arena in Toronto\'s entertainment district',
+    financials: {
+      base: { currency: 'CAD', ticketPriceMin: null, ticketPriceMax: null, projectedGross: null, netGuarantee: null, rationale: null },
+      upside: { currency: 'CAD', ticketPriceMin: null, ticketPriceMax: null, projectedGross: null, netGuarantee: null, rationale: null }
+    }
   }
 ]
 
@@ -46,8 +70,9 @@ if (!fs.existsSync(outputDir)) {
 }
 
 // Write output JSON
-const outputPath = path.join(outputDir, 'stops.v1.json')
-fs.writeFileSync(outputPath, JSON.stringify(testStops, null, 2))
+const outputPath = path.join(outputDir, 'stops.json')
+const payload = { schemaVersion: 3, generatedAt: new Date().toISOString(), stops: testStops }
+fs.writeFileSync(outputPath, JSON.stringify(payload, null, 2))
 
-console.log('✅ Test stops.v1.json generated successfully')
+console.log('✅ Test stops.json generated successfully')
 console.log('📁 Output saved to:', outputPath)
\ No newline at end of file
@@ -1,15 +1,44 @@
-import { useEffect, useState, useCallback, useRef } from 'react'
+import { useEffect, useMemo, useState, useCallback, useRef } from 'react'
 import type { Viewer } from 'cesium'
 import type { PremiumCameraManager } from './lib/cesium/cameraUtils'
 import { Globe } from './components/Globe'
 import { HeaderBar } from './components/HeaderBar'
 import { SummaryStrip } from './components/SummaryStrip'
+import { SimulationPanel } from './components/SimulationPanel'
 import { StopList } from './components/StopList'
 import { StopPanel } from './components/StopPanel'
 import { ScenarioToggle } from './components/ScenarioToggle'
+import { SensitivityPanel } from './components/SensitivityPanel'
 import { CreditsPill } from './components/CreditsPill'
 import { PremiumLoader, type LoadingStage } from './components/PremiumLoader'
 import { loadStops } from './lib/data/loadStops'
+import { StopsSchemaError, type SchemaIssue } from './lib/data/schema'
+import { DEFAULT_SCENARIOS, loadSavedScenarios, loadScenarios, SAVED_SCENARIO_PREFIX, ScenariosSchemaError, storeSavedScenarios } from './lib/data/scenarios'
+import { FxRatesSchemaError, loadFxRates, type FxTable } from './lib/finance/fx'
+import { DEFAULT_DEAL_BOOK, DealsSchemaError, loadDeals, type DealBook } from './lib/finance/deal'
+import {
+  actualsFor,
+  ActualsSchemaError,
+  EMPTY_ACTUALS,
+  isSettled,
+  loadActuals,
+  loadEnteredActuals,
+  mergeActuals,
+  storeEnteredActuals,
+  validateActuals,
+  type ActualsBook,
+  type StopActuals
+} from './lib/finance/actuals'
+import { computePacing, EMPTY_SALES, loadSales, SalesSchemaError, todayString, type SalesBook } from './lib/finance/pacing'
+import { DEFAULT_EXPENSE_BOOK, ExpensesSchemaError, loadExpenses, type ExpenseBook } from './lib/finance/expenses'
+import { AncillarySchemaError, DEFAULT_ANCILLARY_BOOK, loadAncillary, type AncillaryBook } from './lib/finance/ancillary'
+import { DEFAULT_SIMULATION_CONFIG, loadSimulationConfig, SimulationSchemaError, type SimulationConfig } from './lib/finance/simulation'
+import { loadTaxRules, TaxRulesSchemaError } from './lib/finance/taxRules'
+import { stopPayoutDelta } from './lib/finance/compare'
+import { applySensitivity, describeSensitivity, NO_SENSITIVITY, type Sensitivity } from './lib/finance/sensitivity'
+import { computeTravelLegs } from './lib/schedule/travel'
+import { DEFAULT_RADIUS_CLAUSE_BOOK, findRadiusConflicts, loadRadiusClauses, radiusCircles, radiusClauseFor, RadiusClausesSchemaError, type RadiusClauseBook } from './lib/routing/radiusClauses'
+import { checkRouting, DEFAULT_ROUTING_RULES, flaggedLegs, loadRoutingRules, RoutingRulesSchemaError, type RoutingRules } from './lib/routing/feasibility'
 import type { Stop, Scenario } from './lib/data/types'
 import 'cesium/Build/Cesium/Widgets/widgets.css'
 import './styles/tokens.css'
@@ -23,8 +52,24 @@ function App() {
   const [viewMode, setViewMode] = useState<ViewMode>('overview')
   const [selectedStopId, setSelectedStopId] = useState<string | null>(null)
   const [lastSelectedStopId, setLastSelectedStopId] = useState<string | null>(null)
-  const [scenario, setScenario] = useState<Scenario>('base')
+  const [scenarios, setScenarios] = useState<Scenario[]>(DEFAULT_SCENARIOS)
+  const [scenarioId, setScenarioId] = useState<string>(DEFAULT_SCENARIOS[0].id)
+  const [savedScenarios, setSavedScenarios] = useState<Scenario[]>(loadSavedScenarios)
+  const [sensitivity, setSensitivity] = useState<Sensitivity>(NO_SENSITIVITY)
+  const [compareScenarioId, setCompareScenarioId] = useState<string | null>(null)
+  const [deals, setDeals] = useState<DealBook>(DEFAULT_DEAL_BOOK)
+  const [expenses, setExpenses] = useState<ExpenseBook>(DEFAULT_EXPENSE_BOOK)
+  const [ancillary, setAncillary] = useState<AncillaryBook>(DEFAULT_ANCILLARY_BOOK)
+  const [importedActuals, setImportedActuals] = useState<ActualsBook>(EMPTY_ACTUALS)
+  const [enteredActuals, setEnteredActuals] = useState<ActualsBook>(loadEnteredActuals)
+  const [sales, setSales] = useState<SalesBook>(EMPTY_SALES)
+  const [simulationConfig, setSimulationConfig] = useState<SimulationConfig>(DEFAULT_SIMULATION_CONFIG)
+  const [routingRules, setRoutingRules] = useState<RoutingRules>(DEFAULT_ROUTING_RULES)
+  const [radiusClauses, setRadiusClauses] = useState<RadiusClauseBook>(DEFAULT_RADIUS_CLAUSE_BOOK)
+  const [fx, setFx] = useState<FxTable | null>(null)
+  const [reportingCurrency, setReportingCurrency] = useState<string | null>(null)
   const [error, setError] = useState<string | null>(null)
+  const [errorIssues, setErrorIssues] = useState<SchemaIssue[]>([])
   const [, setViewer] = useState<Viewer | null>(null)
   const [cameraManager, setCameraManager] = useState<PremiumCameraManager | null>(null)
   const flyToOverviewRef = useRef<((stops: Stop[]) => void) | null>(null)
@@ -43,11 +88,38 @@ function App() {
     const initializeData = async () => {
       try {
         setError(null)
+        setErrorIssues([])
         setLoadingStage('data')
         setLoadingProgress(0.15)
         
-        const stopsData = await loadStops()
+        const [stopsData, scenarioData, dealData, expenseData, ancillaryData, actualsData, salesData, fxData, simulationData, taxRuleData, routingData, radiusData] = await Promise.all([
+          loadStops(),
+          loadScenarios(),
+          loadDeals(),
+          loadExpenses(),
+          loadAncillary(),
+          loadActuals(),
+          loadSales(),
+          loadFxRates(),
+          loadSimulationConfig(),
+          loadTaxRules(),
+          loadRoutingRules(),
+          loadRadiusClauses()
+        ])
         setStops(stopsData)
+        setScenarios(scenarioData)
+        setScenarioId(scenarioData[0].id)
+        // Every deal calculation picks the tax rules up from the book
+        setDeals({ ...dealData, taxRules: taxRuleData.rules })
+        setExpenses(expenseData)
+        setAncillary(ancillaryData)
+        setImportedActuals(actualsData)
+        setSales(salesData)
+        setFx(fxData)
+        setSimulationConfig(simulationData)
+        setRoutingRules(routingData)
+        setRadiusClauses(radiusData)
+        setReportingCurrency(fxData.base)
         // No default stop - start in Overview mode
         setDataLoaded(true)
         setLoadingStage('imagery')
@@ -55,6 +127,22 @@ function App() {
       } catch (err) {
         console.error('Failed to load stops:', err)
         setError(err instanceof Error ? err.message : 'Failed to load data')
+        if (
+          err instanceof StopsSchemaError ||
+          err instanceof ScenariosSchemaError ||
+          err instanceof DealsSchemaError ||
+          err instanceof ExpensesSchemaError ||
+          err instanceof AncillarySchemaError ||
+          err instanceof ActualsSchemaError ||
+          err instanceof SalesSchemaError ||
+          err instanceof FxRatesSchemaError ||
+          err instanceof SimulationSchemaError ||
+          err instanceof TaxRulesSchemaError ||
+          err instanceof RoutingRulesSchemaError ||
+          err instanceof RadiusClausesSchemaError
+        ) {
+          setErrorIssues(err.issues)
+        }
       }
     }
 
@@ -84,6 +172,110 @@ function App() {
   }, [dataLoaded, imageryReady, viewerReady])
 
   const selectedStop = stops.find(stop => stop.id === selectedStopId) || null
+  const allScenarios = [...scenarios, ...savedScenarios]
+  const scenario = allScenarios.find(s => s.id === scenarioId) ?? scenarios[0]
+  // Memoized so the simulation only reruns when the adjusted scenario actually changes
+  const adjustedScenario = useMemo(() => applySensitivity(scenario, sensitivity, stops), [scenario, sensitivity, stops])
+  // Compare mode applies the same adjustment to both sides, so deltas come from the scenarios alone
+  const compareBase = allScenarios.find(s => s.id === compareScenarioId && s.id !== scenario.id) ?? null
+  const compareScenario = useMemo(
+    () => (compareBase ? applySensitivity(compareBase, sensitivity, stops) : null),
+    [compareBase, sensitivity, stops]
+  )
+  const stopDeltas = useMemo(() => {
+    if (!compareScenario || !fx || !reportingCurrency) return undefined
+    return Object.fromEntries(stops.map(stop => [
+      stop.id,
+      stopPayoutDelta(stop, adjustedScenario, compareScenario, deals, fx, reportingCurrency)
+    ]))
+  }, [stops, adjustedScenario, compareScenario, deals, fx, reportingCurrency])
+
+  // A stop-scoped adjustment follows the selection to another stop; deselecting keeps its stop
+  useEffect(() => {
+    setSensitivity(current => current.stopId && selectedStopId && current.stopId !== selectedStopId
+      ? { ...current, stopId: selectedStopId }
+      : current)
+  }, [selectedStopId])
+
+  // Saves the adjusted scenario and switches to it
+  const handleSaveScenario = useCallback((name: string) => {
+    const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'scenario'
+    const taken = new Set(savedScenarios.map(s => s.id))
+    let id = `${SAVED_SCENARIO_PREFIX}${slug}`
+    for (let n = 2; taken.has(id); n++) id = `${SAVED_SCENARIO_PREFIX}${slug}-${n}`
+
+    const saved: Scenario = {
+      ...applySensitivity(scenario, sensitivity, stops),
+      id,
+      name,
+      description: `${scenario.name}: ${describeSensitivity(sensitivity, stops)}`
+    }
+    const next = [...savedScenarios, saved]
+    console.log(`[App] Saving scenario: ${name} (${id})`)
+    setSavedScenarios(next)
+    storeSavedScenarios(next)
+    setScenarioId(id)
+    setSensitivity(NO_SENSITIVITY)
+  }, [scenarios, savedScenarios, scenario, sensitivity, stops])
+
+  const pacing = useMemo(() => {
+    const today = todayString(Date.now())
+    return Object.fromEntries(stops.map(stop => [stop.id, computePacing(stop, adjustedScenario, deals, sales, today)]))
+  }, [stops, adjustedScenario, deals, sales])
+  const travelLegs = useMemo(() => computeTravelLegs(stops), [stops])
+  const routingIssues = useMemo(() => checkRouting(stops, routingRules, travelLegs), [stops, routingRules, travelLegs])
+  const routeFlags = useMemo(() => flaggedLegs(routingIssues), [routingIssues])
+  const radiusConflicts = useMemo(() => findRadiusConflicts(stops, radiusClauses), [stops, radiusClauses])
+  const radiusCircleList = useMemo(
+    () => radiusCircles(stops, radiusClauses, radiusConflicts),
+    [stops, radiusClauses, radiusConflicts]
+  )
+  const pacingHealth = useMemo(
+    () => Object.fromEntries(Object.entries(pacing).map(([stopId, stopPacing]) => [stopId, stopPacing?.health ?? null])),
+    [pacing]
+  )
+
+  const actuals = useMemo(() => mergeActuals(importedActuals, enteredActuals), [importedActuals, enteredActuals])
+  const settledStopIds = new Set(stops.filter(stop => isSettled(actualsFor(stop, actuals))).map(stop => stop.id))
+
+  const updateEnteredActuals = useCallback((update: (current: ActualsBook) => ActualsBook) => {
+    setEnteredActuals(current => {
+      const next = update(current)
+      storeEnteredActuals(next)
+      return next
+    })
+  }, [])
+
+  const handleSaveActuals = useCallback((stopId: string, stopActuals: StopActuals | null) => {
+    console.log(`[App] ${stopActuals ? 'Saving' : 'Clearing'} actuals for ${stopId}`)
+    updateEnteredActuals(current => {
+      const { [stopId]: _previous, ...others } = current.stops
+      return { stops: stopActuals ? { ...others, [stopId]: stopActuals } : others }
+    })
+  }, [updateEnteredActuals])
+
+  // Imported figures are kept with the entered ones, replacing them stop by stop
+  const handleImportActuals = useCallback(async (file: File) => {
+    try {
+      const imported = validateActuals(JSON.parse(await file.text()))
+      console.log(`[App] Imported actuals for ${Object.keys(imported.stops).length} stops from ${file.name}`)
+      updateEnteredActuals(current => mergeActuals(current, imported))
+    } catch (err) {
+      console.error('[App] Actuals import failed:', err)
+      const details = err instanceof ActualsSchemaError
+        ? err.issues.map(issue => `${issue.path} ${issue.message}`).join('\n')
+        : err instanceof Error ? err.message : String(err)
+      window.alert(`Could not import ${file.name}:\n${details}`)
+    }
+  }, [updateEnteredActuals])
+
+  const handleRemoveScenario = useCallback((id: string) => {
+    const next = savedScenarios.filter(s => s.id !== id)
+    setSavedScenarios(next)
+    storeSavedScenarios(next)
+    if (scenarioId === id) setScenarioId(scenarios[0].id)
+    if (compareScenarioId === id) setCompareScenarioId(null)
+  }, [savedScenarios, scenarioId, compareScenarioId, scenarios])
 
   // Selecting a venue: enter venue mode and set selection
   const handleStopSelection = useCallback((stopId: string) => {
@@ -178,6 +370,30 @@ function App() {
           }}>
             {error}
           </div>
+          {errorIssues.length > 0 && (
+            <ul 
+              style={{ 
+                listStyle: 'none',
+                textAlign: 'left',
+                maxWidth: 560,
+                maxHeight: 240,
+                overflowY: 'auto',
+                margin: '0 auto var(--space-5)',
+                padding: 'var(--space-3)',
+                fontSize: 'var(--font-size-xs)',
+                fontFamily: 'var(--font-family-mono)',
+                color: 'var(--text-secondary)',
+                border: '1px solid var(--border)',
+                borderRadius: 'var(--radius-md)'
+              }}
+            >
+              {errorIssues.map((issue, index) => (
+                <li key={index} style={{ padding: 'var(--space-1) 0' }}>
+                  <span style={{ color: 'var(--accent)' }}>{issue.path}</span> {issue.message}
+                </li>
+              ))}
+            </ul>
+          )}
           <button 
             onClick={() => window.location.reload()}
             className="glass-panel-subtle interactive"
@@ -215,6 +431,9 @@ function App() {
         stops={stops}
         viewMode={viewMode}
         selectedStopId={selectedStopId}
+        pacing={pacingHealth}
+        routeFlags={routeFlags}
+        radiusCircles={radiusCircleList}
         onSelectStop={handleStopSelection}
         onFlyToOverview={(fn) => { flyToOverviewRef.current = fn }}
         onFlyToOverviewAboveStop={(fn) => { flyToOverviewAboveStopRef.current = fn }}
@@ -234,11 +453,36 @@ function App() {
           <HeaderBar 
             stats={{ 
               dates: stops.length, 
-              markets: new Set(stops.map(s => s.countryCode)).size 
+              markets: new Set(stops.map(s => s.countryCode).filter(Boolean)).size 
             }}
+            stops={stops}
             onOverviewClick={handleOverviewClick}
           />
-          <SummaryStrip stops={stops} scenario={scenario} />
+          {fx && reportingCurrency && (
+            <div className="summary-row">
+              <SummaryStrip 
+                stops={stops} 
+                scenario={adjustedScenario} 
+                compareScenario={compareScenario}
+                deals={deals}
+                expenses={expenses}
+                ancillary={ancillary}
+                actuals={actuals}
+                travelLegs={travelLegs}
+                fx={fx}
+                reportingCurrency={reportingCurrency}
+                onReportingCurrencyChange={setReportingCurrency}
+              />
+              <SimulationPanel
+                stops={stops}
+                scenario={adjustedScenario}
+                deals={deals}
+                fx={fx}
+                reportingCurrency={reportingCurrency}
+                config={simulationConfig}
+              />
+            </div>
+          )}
         </div>
         
         {/* Left Rail */}
@@ -247,10 +491,29 @@ function App() {
             stops={stops}
             selectedStopId={selectedStopId}
             onSelectStop={handleStopSelection}
+            settledStopIds={settledStopIds}
+            onImportActuals={handleImportActuals}
+            travelLegs={travelLegs}
+            routingIssues={routingIssues}
+            payoutDeltas={stopDeltas}
+            deltaCurrency={reportingCurrency ?? undefined}
           />
           <ScenarioToggle 
-            scenario={scenario}
-            onScenarioChange={setScenario}
+            scenarios={allScenarios}
+            scenarioId={scenario.id}
+            onScenarioChange={setScenarioId}
+            savedIds={savedScenarios.map(s => s.id)}
+            onRemoveScenario={handleRemoveScenario}
+            compareScenarioId={compareScenario ? compareScenarioId : null}
+            onCompareChange={setCompareScenarioId}
+          />
+          <SensitivityPanel
+            sensitivity={sensitivity}
+            onSensitivityChange={setSensitivity}
+            selectedStop={selectedStop}
+            scopedStop={stops.find(stop => stop.id === sensitivity.stopId) ?? null}
+            defaultSellThrough={adjustedScenario.sellThrough ?? deals.defaults.sellThrough}
+            onSave={handleSaveScenario}
           />
         </div>
         
@@ -258,7 +521,19 @@ function App() {
         <div className="layout-right-rail">
           <StopPanel 
             stop={selectedStop}
-            scenario={scenario}
+            scenario={adjustedScenario}
+            compareScenario={compareScenario}
+            deals={deals}
+            expenses={expenses}
+            ancillary={ancillary}
+            actuals={selectedStop ? actualsFor(selectedStop, actuals) : null}
+            pacing={selectedStop ? pacing[selectedStop.id] ?? null : null}
+            travelIn={travelLegs.find(leg => leg.toStopId === selectedStopId) ?? null}
+            travelOut={travelLegs.find(leg => leg.fromStopId === selectedStopId) ?? null}
+            radiusClause={selectedStop ? radiusClauseFor(selectedStop, radiusClauses) : null}
+            radiusConflicts={radiusConflicts.filter(conflict => conflict.stopId === selectedStopId || conflict.otherStopId === selectedStopId)}
+            onSaveActuals={handleSaveActuals}
+            reporting={fx && reportingCurrency ? { fx, currency: reportingCurrency } : undefined}
           />
         </div>
         
@@ -0,0 +1,164 @@
+import { useState } from 'react'
+import { EXPENSE_CATEGORIES } from '../lib/finance/expenses'
+import type { StopActuals } from '../lib/finance/actuals'
+
+interface ActualsFormProps {
+  actuals: StopActuals | null
+  currency: string
+  onSave: (actuals: StopActuals) => void
+  onCancel: () => void
+  /** Removes the stop's entered actuals */
+  onClear?: () => void
+}
+
+type Field = 'attendance' | 'grossBoxOffice' | 'settledNet' | `expenses.${(typeof EXPENSE_CATEGORIES)[number]['key']}`
+
+const FIELDS: { field: Field; label: string }[] = [
+  { field: 'attendance', label: 'Attendance' },
+  { field: 'grossBoxOffice', label: 'Gross box office' },
+  ...EXPENSE_CATEGORIES.map(({ key, label }) => ({ field: `expenses.${key}` as Field, label })),
+  { field: 'settledNet', label: 'Settled net (after withholding)' }
+]
+
+const inputStyle = {
+  width: '100%',
+  minWidth: 0,
+  padding: 'var(--space-1) var(--space-2)',
+  fontSize: 'var(--font-size-xs)',
+  fontFamily: 'var(--font-family-mono)',
+  textAlign: 'right',
+  color: 'var(--text)',
+  background: 'var(--panel)',
+  border: '1px solid var(--border)',
+  borderRadius: 'var(--radius-md)'
+} as const
+
+function initialValues(actuals: StopActuals | null): Record<Field, string> {
+  const text = (value: number | null | undefined) => (value == null ? '' : String(value))
+  return Object.fromEntries(FIELDS.map(({ field }) => {
+    const value = field.startsWith('expenses.')
+      ? actuals?.expenses[field.slice('expenses.'.length) as keyof StopActuals['expenses']]
+      : actuals?.[field as 'attendance' | 'grossBoxOffice' | 'settledNet']
+    return [field, text(value)]
+  })) as Record<Field, string>
+}
+
+/**
+ * Entry form for a stop's actuals; blank fields stay unknown
+ */
+export function ActualsForm({ actuals, currency, onSave, onCancel, onClear }: ActualsFormProps) {
+  const [values, setValues] = useState(() => initialValues(actuals))
+  const [settledOn, setSettledOn] = useState(actuals?.settledOn ?? '')
+  const parse = (field: Field) => {
+    const text = values[field].replace(/[,\s]/g, '')
+    return text === '' ? null : Number(text)
+  }
+  const invalid = FIELDS.filter(({ field }) => {
+    const value = parse(field)
+    return value !== null && (!Number.isFinite(value) || value < 0 || (field === 'attendance' && !Number.isInteger(value)))
+  }).map(({ field }) => field)
+
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault()
+        if (invalid.length > 0) return
+        const expenses = Object.fromEntries(
+          EXPENSE_CATEGORIES
+            .map(({ key }) => [key, parse(`expenses.${key}`)])
+            .filter(([, value]) => value !== null)
+        )
+        onSave({
+          attendance: parse('attendance'),
+          grossBoxOffice: parse('grossBoxOffice'),
+          expenses,
+          settledNet: parse('settledNet'),
+          settledOn: settledOn || null
+        })
+      }}
+      style={{
+        display: 'grid',
+        gridTemplateColumns: '1fr 120px',
+        rowGap: 'var(--space-1)',
+        columnGap: 'var(--space-3)',
+        alignItems: 'center',
+        paddingLeft: 'var(--space-5)',
+        fontSize: 'var(--font-size-xs)',
+        color: 'var(--text-muted)'
+      }}
+    >
+      {FIELDS.map(({ field, label }) => (
+        <label key={field} style={{ display: 'contents' }}>
+          <span>{label}{field === 'attendance' ? '' : ` (${currency})`}</span>
+          <input
+            type="text"
+            inputMode={field === 'attendance' ? 'numeric' : 'decimal'}
+            value={values[field]}
+            onChange={(e) => setValues({ ...values, [field]: e.target.value })}
+            aria-invalid={invalid.includes(field)}
+            style={{ ...inputStyle, borderColor: invalid.includes(field) ? 'var(--accent)' : 'var(--border)' }}
+          />
+        </label>
+      ))}
+      <label style={{ display: 'contents' }}>
+        <span>Settled on</span>
+        <input
+          type="date"
+          value={settledOn}
+          onChange={(e) => setSettledOn(e.target.value)}
+          style={inputStyle}
+        />
+      </label>
+      <div style={{ gridColumn: '1 / -1', display: 'flex', justifyContent: 'flex-end', gap: 'var(--space-2)', marginTop: 'var(--space-2)' }}>
+        {onClear && (
+          <button
+            type="button"
+            onClick={onClear}
+            style={{
+              marginRight: 'auto',
+              fontSize: 'var(--font-size-xs)',
+              color: 'var(--text-muted)',
+              background: 'transparent',
+              border: 'none',
+              cursor: 'pointer'
+            }}
+          >
+            Clear
+          </button>
+        )}
+        <button
+          type="button"
+          onClick={onCancel}
+          style={{
+            padding: 'var(--space-1) var(--space-3)',
+            fontSize: 'var(--font-size-xs)',
+            color: 'var(--text-secondary)',
+            background: 'transparent',
+            border: '1px solid var(--border)',
+            borderRadius: 'var(--radius-md)',
+            cursor: 'pointer'
+          }}
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={invalid.length > 0}
+          style={{
+            padding: 'var(--space-1) var(--space-3)',
+            fontSize: 'var(--font-size-xs)',
+            fontWeight: 'var(--font-weight-medium)',
+            color: 'var(--bg)',
+            background: 'var(--accent)',
+            border: '1px solid var(--border)',
+            borderRadius: 'var(--radius-md)',
+            cursor: invalid.length > 0 ? 'default' : 'pointer',
+            opacity: invalid.length > 0 ? 0.5 : 1
+          }}
+        >
+          Save
+        </button>
+      </div>
+    </form>
+  )
+}
@@ -24,6 +24,9 @@ import { applyCameraConstraints, setupZoomClampListener } from '../lib/cesium/ca
 import { OVERVIEW_DISTANCE_MULTIPLIER } from '../lib/cesium/camera/overview'
 import { getEarthRadius, computeEarthCenteredPoseAboveLatLng } from '../lib/cesium/camera/poses'
 import type { Stop } from '../lib/data/types'
+import type { PacingHealth } from '../lib/finance/pacing'
+import type { RoutingSeverity } from '../lib/routing/feasibility'
+import type { RadiusCircle } from '../lib/routing/radiusClauses'
 
 interface GlobeProps {
   onReady?: (viewer: Viewer, cameraManager: PremiumCameraManager) => void
@@ -32,6 +35,12 @@ interface GlobeProps {
   stops?: Stop[]
   viewMode?: 'overview' | 'venue'
   selectedStopId?: string | null
+  /** Ticket sales pacing per stop id, shown as marker colours */
+  pacing?: { [stopId: string]: PacingHealth | null }
+  /** Legs with routing problems, keyed "fromStopId>toStopId", shown as route colours */
+  routeFlags?: Map<string, RoutingSeverity>
+  /** Radius clauses drawn around their markers, in both view modes */
+  radiusCircles?: RadiusCircle[]
   onSelectStop?: (stopId: string) => void
   onFlyToOverview?: (flyToOverviewFn: (stops: Stop[]) => void) => void
   onFlyToOverviewAboveStop?: (flyToOverviewAboveStopFn: (stop: Stop) => Promise<void>) => void
@@ -44,6 +53,9 @@ export function Globe({
   stops = [], 
   viewMode = 'overview',
   selectedStopId = null, 
+  pacing,
+  routeFlags,
+  radiusCircles,
   onSelectStop,
   onFlyToOverview,
   onFlyToOverviewAboveStop
@@ -314,6 +326,27 @@ export function Globe({
     }
   }, [isReady, stops, flyToOverview, viewMode]) // Run when either viewer becomes ready OR stops data arrives
 
+  // Recolour markers when pacing changes
+  useEffect(() => {
+    if (markerManagerRef.current && isReady && pacing) {
+      markerManagerRef.current.setPacing(pacing)
+    }
+  }, [pacing, isReady])
+
+  // Recolour route legs when routing problems change
+  useEffect(() => {
+    if (routeManagerRef.current && isReady && routeFlags) {
+      routeManagerRef.current.setFlaggedLegs(routeFlags)
+    }
+  }, [routeFlags, isReady])
+
+  // Redraw radius clause circles when clauses or conflicts change
+  useEffect(() => {
+    if (markerManagerRef.current && isReady && radiusCircles) {
+      markerManagerRef.current.setRadiusCircles(radiusCircles)
+    }
+  }, [radiusCircles, isReady])
+
   // Update marker click callback when it changes
   useEffect(() => {
     if (markerManagerRef.current && onSelectStop) {
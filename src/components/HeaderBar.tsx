@@ -1,3 +1,7 @@
+import type { Stop } from '../lib/data/types'
+import { findNextShow, formatCountdown, getShowStart } from '../lib/schedule/showTimes'
+import { useNow } from '../lib/schedule/useNow'
+
 interface HeaderBarProps {
   title?: string
   subtitle?: string
@@ -5,15 +9,21 @@ interface HeaderBarProps {
     dates: number
     markets: number
   }
+  stops?: Stop[]
   onOverviewClick?: () => void
 }
 
-export function HeaderBar({ 
+export function HeaderBar({
   title = "WORLD TOUR 2026",
   subtitle = "Premium Experience",
   stats = { dates: 2, markets: 2 },
+  stops = [],
   onOverviewClick
 }: HeaderBarProps) {
+  const now = useNow(1000)
+  const nextShow = findNextShow(stops, now)
+  const nextStart = nextShow ? getShowStart(nextShow) : null
+
   return (
     <div className="header-container">
       {/* Main Title Header */}
@@ -21,18 +31,26 @@ export function HeaderBar({
         <h1 className="main-title">{title}</h1>
         <p className="main-subtitle">{subtitle}</p>
       </div>
-      
+
       {/* Stats and Controls Section */}
       <div className="header-stats">
         {/* Overview Button */}
-        <button 
+        <button
           className="overview-button"
           onClick={onOverviewClick}
           title="View entire tour route"
         >
           Overview
         </button>
-        
+
+        {/* Next show countdown */}
+        {nextShow && nextStart != null && (
+          <div className="stat-chip" title={`${nextShow.city} – ${nextShow.venue}`}>
+            Next: {nextShow.city}
+            <span className="stat-chip-value countdown">{formatCountdown(nextStart - now)}</span>
+          </div>
+        )}
+
         {/* Stats */}
         <div className="stat-chip">
           Dates
@@ -45,4 +63,4 @@ export function HeaderBar({
       </div>
     </div>
   )
-}
\ No newline at end of file
+}
@@ -0,0 +1,107 @@
+import { PACING_COLORS, PACING_LABELS, type Pacing } from '../lib/finance/pacing'
+
+interface PacingChartProps {
+  pacing: Pacing
+  /** Show date, YYYY-MM-DD; the forecast runs to it */
+  showDate: string | null
+}
+
+const WIDTH = 280
+const HEIGHT = 80
+
+const dayNumber = (date: string) => Math.floor(Date.parse(`${date}T00:00:00Z`) / 86_400_000)
+const percent = (value: number) => `${Math.round(value * 100)}%`
+
+/**
+ * Cumulative tickets sold against capacity, with the forecast to the show date
+ */
+export function PacingChart({ pacing, showDate }: PacingChartProps) {
+  const { curve, capacity, sold, forecastSold, health } = pacing
+  const last = curve[curve.length - 1]
+  const startDay = dayNumber(curve[0].date) - 1
+  const endDay = Math.max(dayNumber(last.date), showDate ? dayNumber(showDate) : 0)
+  const top = Math.max(capacity ?? 0, forecastSold, sold, 1)
+  const x = (date: string) => ((dayNumber(date) - startDay) / Math.max(1, endDay - startDay)) * WIDTH
+  const y = (tickets: number) => HEIGHT - (tickets / top) * HEIGHT
+  const color = health ? PACING_COLORS[health] : 'var(--accent)'
+  const line = [`0,${HEIGHT}`, ...curve.map(point => `${x(point.date)},${y(point.sold)}`)].join(' ')
+
+  return (
+    <div>
+      <svg
+        width="100%"
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        preserveAspectRatio="none"
+        role="img"
+        aria-label="Ticket sales against capacity"
+        style={{ display: 'block', height: HEIGHT, overflow: 'visible' }}
+      >
+        {capacity != null && (
+          <>
+            <line x1={0} x2={WIDTH} y1={y(capacity)} y2={y(capacity)} stroke="var(--border)" />
+            <line
+              x1={0}
+              x2={WIDTH}
+              y1={y(capacity * pacing.targetSellThrough)}
+              y2={y(capacity * pacing.targetSellThrough)}
+              stroke="var(--text-muted)"
+              strokeDasharray="2 3"
+            />
+          </>
+        )}
+        <polyline points={line} fill="none" stroke={color} strokeWidth={1.5} vectorEffect="non-scaling-stroke" />
+        {showDate && dayNumber(showDate) > dayNumber(last.date) && (
+          <line
+            x1={x(last.date)}
+            y1={y(last.sold)}
+            x2={x(showDate)}
+            y2={y(forecastSold)}
+            stroke={color}
+            strokeWidth={1.5}
+            strokeDasharray="4 3"
+            opacity={0.7}
+            vectorEffect="non-scaling-stroke"
+          />
+        )}
+      </svg>
+
+      {/* Sold / capacity */}
+      {capacity != null && (
+        <div
+          style={{
+            height: 4,
+            marginTop: 'var(--space-2)',
+            background: 'var(--panel)',
+            borderRadius: 'var(--radius-sm)',
+            overflow: 'hidden'
+          }}
+        >
+          <div style={{ width: `${Math.min(100, (sold / capacity) * 100)}%`, height: '100%', background: color }} />
+        </div>
+      )}
+      <div
+        style={{
+          display: 'flex',
+          justifyContent: 'space-between',
+          gap: 'var(--space-3)',
+          marginTop: 'var(--space-2)',
+          fontSize: 'var(--font-size-xs)',
+          color: 'var(--text-muted)'
+        }}
+      >
+        <span>
+          <span style={{ color: 'var(--text)', fontFamily: 'var(--font-family-mono)' }}>{sold.toLocaleString()}</span>
+          {capacity != null && ` / ${capacity.toLocaleString()} sold (${percent(sold / capacity)})`}
+        </span>
+        {health && <span style={{ color }}>{PACING_LABELS[health]}</span>}
+      </div>
+      <div style={{ marginTop: 'var(--space-1)', fontSize: 'var(--font-size-xs)', color: 'var(--text-muted)' }}>
+        Forecast {forecastSold.toLocaleString()}
+        {pacing.forecastSellThrough != null && ` (${percent(pacing.forecastSellThrough)})`}
+        {' '}vs. {percent(pacing.targetSellThrough)} projected
+        {pacing.daysRemaining != null && ` · ${pacing.daysRemaining} days left`}
+        {` · ${Math.round(pacing.dailyRate).toLocaleString()}/day`}
+      </div>
+    </div>
+  )
+}
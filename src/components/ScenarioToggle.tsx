@@ -1,21 +1,31 @@
 import type { Scenario } from '../lib/data/types'
 
 interface ScenarioToggleProps {
-  scenario: Scenario
-  onScenarioChange: (scenario: Scenario) => void
+  scenarios: Scenario[]
+  scenarioId: string
+  onScenarioChange: (scenarioId: string) => void
+  /** Scenarios the user saved; these can be removed */
+  savedIds?: string[]
+  onRemoveScenario?: (scenarioId: string) => void
+  /** Scenario compared against the selected one; null when compare mode is off */
+  compareScenarioId?: string | null
+  onCompareChange?: (scenarioId: string | null) => void
 }
 
-export function ScenarioToggle({ scenario, onScenarioChange }: ScenarioToggleProps) {
-  const scenarios: { value: Scenario; label: string }[] = [
-    { value: 'base', label: 'Base' },
-    { value: 'upside', label: 'Upside' }
-  ]
-
+export function ScenarioToggle({
+  scenarios,
+  scenarioId,
+  onScenarioChange,
+  savedIds = [],
+  onRemoveScenario,
+  compareScenarioId = null,
+  onCompareChange
+}: ScenarioToggleProps) {
   return (
     <div className="glass-panel" style={{ padding: 'var(--space-5)' }}>
-      <h3 
-        style={{ 
-          fontSize: 'var(--font-size-lg)', 
+      <h3
+        style={{
+          fontSize: 'var(--font-size-lg)',
           fontWeight: 'var(--font-weight-semibold)',
           color: 'var(--text)',
           marginBottom: 'var(--space-4)',
@@ -24,76 +34,114 @@ export function ScenarioToggle({ scenario, onScenarioChange }: ScenarioTogglePro
       >
         Scenario
       </h3>
-      
-      {/* Segmented Control */}
-      <div 
-        style={{
-          position: 'relative',
-          display: 'flex',
-          background: 'var(--panel)',
-          border: '1px solid var(--border)',
-          borderRadius: 'var(--radius-lg)',
-          padding: 'var(--space-1)'
-        }}
+
+      {/* Scenario List */}
+      <div
+        role="radiogroup"
+        aria-label="Scenario"
+        style={{ display: 'flex', flexDirection: 'column', gap: 'var(--space-2)' }}
       >
-        {/* Background Slider */}
-        <div
-          style={{
-            position: 'absolute',
-            top: 'var(--space-1)',
-            bottom: 'var(--space-1)',
-            left: scenario === 'base' ? 'var(--space-1)' : '50%',
-            width: 'calc(50% - var(--space-1))',
-            background: 'var(--accent)',
-            borderRadius: 'var(--radius-md)',
-            transition: 'all var(--transition-normal)',
-            boxShadow: '0 2px 8px rgba(231, 209, 167, 0.25)'
-          }}
-        />
-        
-        {/* Toggle Options */}
         {scenarios.map((option) => {
-          const isActive = scenario === option.value
-          
+          const isActive = scenarioId === option.id
+
           return (
-            <button
-              key={option.value}
-              onClick={() => onScenarioChange(option.value)}
-              style={{
-                position: 'relative',
-                flex: 1,
-                padding: 'var(--space-2) var(--space-3)',
-                fontSize: 'var(--font-size-sm)',
-                fontWeight: 'var(--font-weight-medium)',
-                color: isActive ? 'var(--bg)' : 'var(--text-secondary)',
-                background: 'transparent',
-                border: 'none',
-                borderRadius: 'var(--radius-md)',
-                cursor: 'pointer',
-                transition: 'all var(--transition-normal)',
-                zIndex: 1
-              }}
-            >
-              {option.label}
-            </button>
+            <div key={option.id} style={{ position: 'relative' }}>
+              <button
+                role="radio"
+                aria-checked={isActive}
+                onClick={() => onScenarioChange(option.id)}
+                style={{
+                  width: '100%',
+                  padding: 'var(--space-2) var(--space-3)',
+                  textAlign: 'left',
+                  background: isActive ? 'rgba(231, 209, 167, 0.08)' : 'var(--panel)',
+                  border: isActive ? '1px solid var(--accent)' : '1px solid var(--border)',
+                  borderRadius: 'var(--radius-md)',
+                  cursor: 'pointer',
+                  transition: 'all var(--transition-normal)'
+                }}
+              >
+                <div
+                  style={{
+                    fontSize: 'var(--font-size-sm)',
+                    fontWeight: 'var(--font-weight-medium)',
+                    color: isActive ? 'var(--accent)' : 'var(--text-secondary)'
+                  }}
+                >
+                  {option.name}
+                </div>
+                {option.description && (
+                  <div
+                    style={{
+                      marginTop: 'var(--space-1)',
+                      fontSize: 'var(--font-size-xs)',
+                      color: 'var(--text-muted)',
+                      lineHeight: 'var(--line-height-normal)'
+                    }}
+                  >
+                    {option.description}
+                  </div>
+                )}
+              </button>
+              {onRemoveScenario && savedIds.includes(option.id) && (
+                <button
+                  onClick={() => onRemoveScenario(option.id)}
+                  aria-label={`Remove ${option.name}`}
+                  title="Remove saved scenario"
+                  style={{
+                    position: 'absolute',
+                    top: 'var(--space-2)',
+                    right: 'var(--space-2)',
+                    fontSize: 'var(--font-size-xs)',
+                    color: 'var(--text-muted)',
+                    background: 'transparent',
+                    border: 'none',
+                    cursor: 'pointer'
+                  }}
+                >
+                  ✕
+                </button>
+              )}
+            </div>
           )
         })}
       </div>
-      
-      {/* Scenario Hint */}
-      <div 
-        style={{
-          marginTop: 'var(--space-3)',
-          fontSize: 'var(--font-size-xs)',
-          color: 'var(--text-muted)',
-          lineHeight: 'var(--line-height-normal)'
-        }}
-      >
-        {scenario === 'base' 
-          ? 'Conservative market estimates'
-          : 'Optimistic market conditions'
-        }
-      </div>
+
+      {onCompareChange && scenarios.length > 1 && (
+        <label
+          style={{
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'space-between',
+            gap: 'var(--space-2)',
+            marginTop: 'var(--space-4)',
+            fontSize: 'var(--font-size-xs)',
+            color: 'var(--text-muted)'
+          }}
+        >
+          Compare with
+          <select
+            value={compareScenarioId ?? ''}
+            onChange={(e) => onCompareChange(e.target.value || null)}
+            style={{
+              flex: 1,
+              minWidth: 0,
+              padding: 'var(--space-1) var(--space-2)',
+              fontSize: 'var(--font-size-xs)',
+              color: compareScenarioId ? 'var(--accent)' : 'var(--text-secondary)',
+              background: 'var(--panel)',
+              border: compareScenarioId ? '1px solid var(--accent)' : '1px solid var(--border)',
+              borderRadius: 'var(--radius-md)',
+              cursor: 'pointer'
+            }}
+          >
+            <option value="">Off</option>
+            {scenarios.filter(option => option.id !== scenarioId).map(option => (
+              <option key={option.id} value={option.id}>{option.name}</option>
+            ))}
+          </select>
+        </label>
+      )}
     </div>
   )
-}
\ No newline at end of file
+}
@@ -0,0 +1,184 @@
+import { useState } from 'react'
+import type { Stop } from '../lib/data/types'
+import { isNeutral, NO_SENSITIVITY, type Sensitivity } from '../lib/finance/sensitivity'
+
+interface SensitivityPanelProps {
+  sensitivity: Sensitivity
+  onSensitivityChange: (sensitivity: Sensitivity) => void
+  selectedStop: Stop | null
+  /** The stop a stop-scoped adjustment applies to; it stays scoped when nothing is selected */
+  scopedStop: Stop | null
+  /** Shown on the sell-through slider until it's moved */
+  defaultSellThrough: number
+  /** Saves the adjusted scenario under a new name */
+  onSave: (name: string) => void
+}
+
+const labelStyle = {
+  display: 'flex',
+  justifyContent: 'space-between',
+  fontSize: 'var(--font-size-xs)',
+  color: 'var(--text-secondary)',
+  marginBottom: 'var(--space-1)'
+} as const
+
+const valueStyle = {
+  fontFamily: 'var(--font-family-mono)',
+  color: 'var(--text)'
+} as const
+
+export function SensitivityPanel({ sensitivity, onSensitivityChange, selectedStop, scopedStop, defaultSellThrough, onSave }: SensitivityPanelProps) {
+  const [name, setName] = useState('')
+  const scopedToStop = sensitivity.stopId !== null
+  const update = (changes: Partial<Sensitivity>) => onSensitivityChange({ ...sensitivity, ...changes })
+  const canSave = !isNeutral(sensitivity) && name.trim() !== ''
+
+  const stopScope = selectedStop ?? scopedStop
+  const scopes = [
+    { label: 'All stops', stopId: null, disabled: false },
+    { label: stopScope ? stopScope.city : 'Selected stop', stopId: stopScope?.id ?? null, disabled: !stopScope }
+  ]
+
+  return (
+    <div className="glass-panel" style={{ padding: 'var(--space-5)' }}>
+      <div style={{ display: 'flex', alignItems: 'baseline', justifyContent: 'space-between', marginBottom: 'var(--space-4)' }}>
+        <h3
+          style={{
+            fontSize: 'var(--font-size-lg)',
+            fontWeight: 'var(--font-weight-semibold)',
+            color: 'var(--text)',
+            letterSpacing: 'var(--letter-spacing-tight)'
+          }}
+        >
+          Sensitivity
+        </h3>
+        <button
+          onClick={() => onSensitivityChange(NO_SENSITIVITY)}
+          disabled={isNeutral(sensitivity)}
+          style={{
+            fontSize: 'var(--font-size-xs)',
+            color: isNeutral(sensitivity) ? 'var(--text-muted)' : 'var(--accent)',
+            background: 'transparent',
+            border: 'none',
+            cursor: isNeutral(sensitivity) ? 'default' : 'pointer'
+          }}
+        >
+          Reset
+        </button>
+      </div>
+
+      {/* Scope */}
+      <div style={{ display: 'flex', gap: 'var(--space-2)', marginBottom: 'var(--space-4)' }}>
+        {scopes.map((scope, index) => {
+          const isActive = index === 0 ? !scopedToStop : scopedToStop
+          return (
+            <button
+              key={scope.label}
+              onClick={() => update({ stopId: scope.stopId })}
+              disabled={scope.disabled}
+              style={{
+                flex: 1,
+                padding: 'var(--space-1) var(--space-2)',
+                fontSize: 'var(--font-size-xs)',
+                color: isActive ? 'var(--accent)' : 'var(--text-secondary)',
+                background: isActive ? 'rgba(231, 209, 167, 0.08)' : 'var(--panel)',
+                border: isActive ? '1px solid var(--accent)' : '1px solid var(--border)',
+                borderRadius: 'var(--radius-md)',
+                cursor: scope.disabled ? 'default' : 'pointer',
+                opacity: scope.disabled ? 0.5 : 1,
+                whiteSpace: 'nowrap',
+                overflow: 'hidden',
+                textOverflow: 'ellipsis'
+              }}
+            >
+              {scope.label}
+            </button>
+          )
+        })}
+      </div>
+
+      {/* Price */}
+      <label style={{ display: 'block', marginBottom: 'var(--space-4)' }}>
+        <div style={labelStyle}>
+          Average ticket price
+          <span style={valueStyle}>
+            {sensitivity.priceChange > 0 ? '+' : ''}{Math.round(sensitivity.priceChange * 100)}%
+          </span>
+        </div>
+        <input
+          type="range"
+          min={-50}
+          max={50}
+          step={1}
+          value={Math.round(sensitivity.priceChange * 100)}
+          onChange={(e) => update({ priceChange: Number(e.target.value) / 100 })}
+          style={{ width: '100%', accentColor: 'var(--accent)' }}
+        />
+      </label>
+
+      {/* Sell-through */}
+      <label style={{ display: 'block', marginBottom: 'var(--space-4)' }}>
+        <div style={labelStyle}>
+          Sell-through
+          <span style={valueStyle}>
+            {sensitivity.sellThrough === null ? 'Deal terms' : `${Math.round(sensitivity.sellThrough * 100)}%`}
+          </span>
+        </div>
+        <input
+          type="range"
+          min={0}
+          max={100}
+          step={1}
+          value={Math.round((sensitivity.sellThrough ?? defaultSellThrough) * 100)}
+          onChange={(e) => update({ sellThrough: Number(e.target.value) / 100 })}
+          style={{ width: '100%', accentColor: 'var(--accent)', opacity: sensitivity.sellThrough === null ? 0.5 : 1 }}
+        />
+      </label>
+
+      {/* Save as scenario */}
+      <form
+        onSubmit={(e) => {
+          e.preventDefault()
+          if (!canSave) return
+          onSave(name.trim())
+          setName('')
+        }}
+        style={{ display: 'flex', gap: 'var(--space-2)' }}
+      >
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Scenario name"
+          aria-label="Scenario name"
+          style={{
+            flex: 1,
+            minWidth: 0,
+            padding: 'var(--space-1) var(--space-2)',
+            fontSize: 'var(--font-size-xs)',
+            color: 'var(--text)',
+            background: 'var(--panel)',
+            border: '1px solid var(--border)',
+            borderRadius: 'var(--radius-md)'
+          }}
+        />
+        <button
+          type="submit"
+          disabled={!canSave}
+          style={{
+            padding: 'var(--space-1) var(--space-3)',
+            fontSize: 'var(--font-size-xs)',
+            fontWeight: 'var(--font-weight-medium)',
+            color: canSave ? 'var(--bg)' : 'var(--text-muted)',
+            background: canSave ? 'var(--accent)' : 'var(--panel)',
+            border: '1px solid var(--border)',
+            borderRadius: 'var(--radius-md)',
+            cursor: canSave ? 'pointer' : 'default'
+          }}
+        >
+          Save
+        </button>
+      </form>
+    </div>
+  )
+}
@@ -0,0 +1,133 @@
+import { useState } from 'react'
+import type { Stop, Scenario } from '../lib/data/types'
+import { formatMoneyCompact } from '../lib/data/loadStops'
+import type { DealBook } from '../lib/finance/deal'
+import type { FxTable } from '../lib/finance/fx'
+import type { DistributionSummary, SimulationConfig } from '../lib/finance/simulation'
+import { useSimulation } from '../lib/finance/useSimulation'
+
+interface SimulationPanelProps {
+  stops: Stop[]
+  scenario: Scenario
+  deals: DealBook
+  fx: FxTable
+  reportingCurrency: string
+  config: SimulationConfig
+}
+
+type Metric = 'grossBoxOffice' | 'netBoxOffice'
+
+const METRICS: { id: Metric; label: string }[] = [
+  { id: 'grossBoxOffice', label: 'Gross' },
+  { id: 'netBoxOffice', label: 'Net' }
+]
+
+const HISTOGRAM_WIDTH = 240
+const HISTOGRAM_HEIGHT = 56
+
+function Histogram({ summary }: { summary: DistributionSummary }) {
+  const { min, step, counts } = summary.histogram
+  const tallest = Math.max(...counts)
+  const barWidth = HISTOGRAM_WIDTH / counts.length
+  const x = (value: number) => ((value - min) / (step * counts.length)) * HISTOGRAM_WIDTH
+
+  return (
+    <svg
+      className="simulation-panel__histogram"
+      width={HISTOGRAM_WIDTH}
+      height={HISTOGRAM_HEIGHT}
+      viewBox={`0 0 ${HISTOGRAM_WIDTH} ${HISTOGRAM_HEIGHT}`}
+      role="img"
+      aria-label="Distribution of simulated outcomes"
+    >
+      {counts.map((count, index) => {
+        const height = tallest > 0 ? (count / tallest) * HISTOGRAM_HEIGHT : 0
+        const inMiddle = min + step * (index + 1) > summary.p10 && min + step * index < summary.p90
+        return (
+          <rect
+            key={index}
+            x={index * barWidth + 0.5}
+            y={HISTOGRAM_HEIGHT - height}
+            width={Math.max(1, barWidth - 1)}
+            height={height}
+            fill={inMiddle ? 'var(--accent)' : 'var(--text-muted)'}
+            opacity={inMiddle ? 0.8 : 0.4}
+          />
+        )
+      })}
+      {[summary.p10, summary.p50, summary.p90].map((value, index) => (
+        <line
+          key={index}
+          x1={x(value)}
+          x2={x(value)}
+          y1={0}
+          y2={HISTOGRAM_HEIGHT}
+          stroke="var(--text)"
+          strokeWidth={index === 1 ? 1.5 : 1}
+          strokeDasharray={index === 1 ? undefined : '2 2'}
+          opacity={0.7}
+        />
+      ))}
+    </svg>
+  )
+}
+
+export function SimulationPanel({ stops, scenario, deals, fx, reportingCurrency, config }: SimulationPanelProps) {
+  const [enabled, setEnabled] = useState(false)
+  const [metric, setMetric] = useState<Metric>('grossBoxOffice')
+  const { result, running } = useSimulation(
+    enabled ? { stops, scenario, deals, fx, currency: reportingCurrency, config } : null
+  )
+  const money = (value: number) => formatMoneyCompact(value, result?.currency ?? reportingCurrency)
+  const exclusions = result
+    ? [
+        result.unconverted.length > 0 && `stops in ${result.unconverted.join(', ')} (no FX rate)`,
+        result.withoutDeal > 0 && `${result.withoutDeal} ${result.withoutDeal === 1 ? 'stop' : 'stops'} whose deal can't be worked (no capacity)`
+      ].filter(Boolean)
+    : []
+  const excluded = exclusions.length > 0 ? `Excludes ${exclusions.join(' and ')}` : undefined
+
+  return (
+    <div className="simulation-panel">
+      <div className="simulation-panel__header">
+        <span className="summary-strip__item">
+          Simulation
+          {enabled && result && <strong>{result.trials.toLocaleString()} trials</strong>}
+          {enabled && running && <span>running…</span>}
+        </span>
+        <button
+          className="simulation-panel__button"
+          onClick={() => setEnabled(!enabled)}
+          aria-pressed={enabled}
+        >
+          {enabled ? 'Hide' : 'Run'}
+        </button>
+      </div>
+
+      {enabled && result && (
+        <>
+          <Histogram summary={result[metric]} />
+          <div className="simulation-panel__summary" role="radiogroup" aria-label="Histogram figure" title={excluded}>
+            {METRICS.map(option => (
+              <button
+                key={option.id}
+                role="radio"
+                aria-checked={metric === option.id}
+                className={`simulation-panel__row${metric === option.id ? ' simulation-panel__row--active' : ''}`}
+                onClick={() => setMetric(option.id)}
+              >
+                <span className="simulation-panel__label">{option.label}{excluded && '*'}</span>
+                {(['p10', 'p50', 'p90'] as const).map(point => (
+                  <span key={point} className="summary-strip__item">
+                    {point.toUpperCase()}
+                    <strong>{money(result[option.id][point])}</strong>
+                  </span>
+                ))}
+              </button>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
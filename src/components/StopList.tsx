@@ -1,12 +1,43 @@
+import { Fragment, useRef, useState } from 'react'
 import type { Stop } from '../lib/data/types'
+import { formatMoneyCompact, formatPlaceCode } from '../lib/data/loadStops'
+import { formatCountdown, formatShowDate, getShowPhase, getShowStart } from '../lib/schedule/showTimes'
+import { formatDaysBetween, formatTravel, type TravelLeg } from '../lib/schedule/travel'
+import { useNow } from '../lib/schedule/useNow'
+import { ROUTING_COLORS, type RoutingIssue } from '../lib/routing/feasibility'
 
 interface StopListProps {
   stops: Stop[]
   selectedStopId: string | null
   onSelectStop: (stopId: string) => void
+  /** Stops whose settlement is in */
+  settledStopIds?: Set<string>
+  /** Imports an actuals file (same format as public/data/actuals.json) */
+  onImportActuals?: (file: File) => void
+  /** Legs between consecutive stops, shown between rows in tour order */
+  travelLegs?: TravelLeg[]
+  /** Routing problems (see feasibility.ts), badged on the stop they're about */
+  routingIssues?: RoutingIssue[]
+  /** Compare mode: how far the compared scenario moves each stop's artist payout */
+  payoutDeltas?: { [stopId: string]: number | null }
+  deltaCurrency?: string
 }
 
-export function StopList({ stops, selectedStopId, onSelectStop }: StopListProps) {
+export function StopList({
+  stops,
+  selectedStopId,
+  onSelectStop,
+  settledStopIds,
+  onImportActuals,
+  travelLegs,
+  routingIssues,
+  payoutDeltas,
+  deltaCurrency
+}: StopListProps) {
+  const now = useNow(30_000)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [sortByDelta, setSortByDelta] = useState(false)
+
   if (stops.length === 0) {
     return (
       <div className="glass-panel" style={{ padding: 'var(--space-6)' }}>
@@ -17,26 +48,124 @@ export function StopList({ stops, selectedStopId, onSelectStop }: StopListProps)
     )
   }
 
+  // Largest payout change first; stops without a delta go last
+  const sorted = sortByDelta && payoutDeltas
+  const deltaSize = (stop: Stop) => {
+    const delta = payoutDeltas?.[stop.id]
+    return delta == null ? -1 : Math.abs(delta)
+  }
+  const listed = sorted ? [...stops].sort((a, b) => deltaSize(b) - deltaSize(a)) : stops
+  // Leg headings only help in tour order, when the tour spans more than one leg
+  const showLegs = !sorted && new Set(stops.map(s => s.leg)).size > 1
+
   return (
     <div className="glass-panel" style={{ padding: 'var(--space-5)' }}>
-      <h3 
-        style={{ 
-          fontSize: 'var(--font-size-lg)', 
-          fontWeight: 'var(--font-weight-semibold)',
-          color: 'var(--text)',
-          marginBottom: 'var(--space-4)',
-          letterSpacing: 'var(--letter-spacing-tight)'
-        }}
-      >
-        Tour Stops
-      </h3>
+      <div style={{ display: 'flex', alignItems: 'baseline', justifyContent: 'space-between', marginBottom: 'var(--space-4)' }}>
+        <h3 
+          style={{ 
+            fontSize: 'var(--font-size-lg)', 
+            fontWeight: 'var(--font-weight-semibold)',
+            color: 'var(--text)',
+            letterSpacing: 'var(--letter-spacing-tight)'
+          }}
+        >
+          Tour Stops
+        </h3>
+        {payoutDeltas && (
+          <button
+            onClick={() => setSortByDelta(!sortByDelta)}
+            aria-pressed={sortByDelta}
+            title="Sort by how far the compared scenario moves the artist payout"
+            style={{
+              fontSize: 'var(--font-size-xs)',
+              color: sortByDelta ? 'var(--accent)' : 'var(--text-muted)',
+              background: 'transparent',
+              border: 'none',
+              cursor: 'pointer'
+            }}
+          >
+            {sortByDelta ? 'Tour order' : 'Sort by delta'}
+          </button>
+        )}
+        {onImportActuals && (
+          <>
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              title="Import settlement actuals (JSON)"
+              style={{
+                fontSize: 'var(--font-size-xs)',
+                color: 'var(--accent)',
+                background: 'transparent',
+                border: 'none',
+                cursor: 'pointer'
+              }}
+            >
+              Import actuals
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              hidden
+              onChange={(e) => {
+                const file = e.target.files?.[0]
+                if (file) onImportActuals(file)
+                e.target.value = ''
+              }}
+            />
+          </>
+        )}
+      </div>
       <div style={{ display: 'flex', flexDirection: 'column', gap: 'var(--space-2)' }}>
-        {stops.map((stop) => {
+        {listed.map((stop, index) => {
           const isSelected = stop.id === selectedStopId
+          const phase = getShowPhase(stop, now)
+          const isPlayed = phase === 'played'
+          const isSettled = settledStopIds?.has(stop.id) ?? false
+          const start = getShowStart(stop)
+          const startsLeg = showLegs && stop.leg && stop.leg !== stops[index - 1]?.leg
+          const payoutDelta = payoutDeltas?.[stop.id]
+          const travelIn = !sorted && index > 0 ? travelLegs?.find(leg => leg.toStopId === stop.id) : undefined
+          const daysBetween = travelIn && formatDaysBetween(travelIn)
+          const issues = routingIssues?.filter(issue => issue.stopId === stop.id) ?? []
+          const issueColor = issues.length > 0
+            ? ROUTING_COLORS[issues.some(issue => issue.severity === 'error') ? 'error' : 'warning']
+            : undefined
           
           return (
+            <Fragment key={stop.id}>
+            {travelIn && (
+              <div 
+                style={{
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: 'var(--space-2)',
+                  paddingLeft: 'var(--space-5)',
+                  fontSize: 'var(--font-size-xs)',
+                  color: 'var(--text-muted)',
+                  fontFamily: 'var(--font-family-mono)'
+                }}
+                title={travelIn.travelDays > 0 ? `${travelIn.travelDays} travel ${travelIn.travelDays === 1 ? 'day' : 'days'}` : 'Travel on show day'}
+              >
+                <span aria-hidden>↓</span>
+                <span>{formatTravel(travelIn)}{daysBetween && ` · ${daysBetween}`}</span>
+              </div>
+            )}
+            {startsLeg && (
+              <div 
+                style={{
+                  fontSize: 'var(--font-size-xs)',
+                  fontWeight: 'var(--font-weight-semibold)',
+                  color: 'var(--text-muted)',
+                  textTransform: 'uppercase',
+                  letterSpacing: 'var(--letter-spacing-wide)',
+                  marginTop: index > 0 ? 'var(--space-3)' : 0
+                }}
+              >
+                {stop.leg}
+              </div>
+            )}
             <button
-              key={stop.id}
               onClick={() => onSelectStop(stop.id)}
               className="glass-panel-subtle interactive"
               style={{
@@ -51,6 +180,7 @@ export function StopList({ stops, selectedStopId, onSelectStop }: StopListProps)
                 borderRadius: 'var(--radius-md)',
                 transition: 'all var(--transition-fast)',
                 cursor: 'pointer',
+                opacity: isPlayed && !isSelected ? 0.55 : 1,
                 boxShadow: isSelected 
                   ? '0 0 20px rgba(231, 209, 167, 0.1)' 
                   : 'none'
@@ -94,8 +224,26 @@ export function StopList({ stops, selectedStopId, onSelectStop }: StopListProps)
                         fontFamily: 'var(--font-family-mono)'
                       }}
                     >
-                      {stop.countryCode}
+                      {formatPlaceCode(stop)}
                     </span>
+                    {issueColor && (
+                      <span
+                        title={issues.map(issue => issue.message).join('\n')}
+                        style={{
+                          marginLeft: 'auto',
+                          fontSize: 'var(--font-size-xs)',
+                          fontFamily: 'var(--font-family-mono)',
+                          textTransform: 'uppercase',
+                          letterSpacing: 'var(--letter-spacing-wide)',
+                          padding: '0 var(--space-1)',
+                          color: issueColor,
+                          border: `1px solid ${issueColor}`,
+                          borderRadius: 'var(--radius-sm)'
+                        }}
+                      >
+                        {issues.length === 1 ? 'Routing' : `Routing ×${issues.length}`}
+                      </span>
+                    )}
                   </div>
                   <div 
                     style={{ 
@@ -109,6 +257,55 @@ export function StopList({ stops, selectedStopId, onSelectStop }: StopListProps)
                   >
                     {stop.venue}
                   </div>
+                  <div 
+                    style={{ 
+                      display: 'flex',
+                      alignItems: 'center',
+                      gap: 'var(--space-2)',
+                      fontSize: 'var(--font-size-xs)',
+                      marginTop: 'var(--space-1)',
+                      color: 'var(--text-muted)'
+                    }}
+                  >
+                    <span>{formatShowDate(stop)}</span>
+                    {phase === 'upcoming' && start != null && (
+                      <span className="countdown" style={{ color: 'var(--accent-muted)' }}>
+                        in {formatCountdown(start - now, false)}
+                      </span>
+                    )}
+                    {phase === 'live' && (
+                      <span style={{ color: 'var(--accent)', fontWeight: 'var(--font-weight-semibold)' }}>
+                        Tonight
+                      </span>
+                    )}
+                    {(isPlayed || isSettled) && (
+                      <span 
+                        style={{
+                          fontFamily: 'var(--font-family-mono)',
+                          textTransform: 'uppercase',
+                          letterSpacing: 'var(--letter-spacing-wide)',
+                          padding: '0 var(--space-1)',
+                          color: isSettled ? 'var(--accent-muted)' : undefined,
+                          border: isSettled ? '1px solid var(--accent-muted)' : '1px solid var(--border)',
+                          borderRadius: 'var(--radius-sm)'
+                        }}
+                      >
+                        {isSettled ? 'Settled' : 'Played'}
+                      </span>
+                    )}
+                    {payoutDelta != null && deltaCurrency && (
+                      <span
+                        title="Artist payout change under the compared scenario"
+                        style={{
+                          marginLeft: 'auto',
+                          fontFamily: 'var(--font-family-mono)',
+                          color: payoutDelta ? 'var(--accent)' : 'var(--text-muted)'
+                        }}
+                      >
+                        {payoutDelta > 0 ? '+' : ''}{formatMoneyCompact(payoutDelta, deltaCurrency)}
+                      </span>
+                    )}
+                  </div>
                 </div>
                 
                 {/* Selection Indicator */}
@@ -124,6 +321,7 @@ export function StopList({ stops, selectedStopId, onSelectStop }: StopListProps)
                 )}
               </div>
             </button>
+            </Fragment>
           )
         })}
       </div>
@@ -1,13 +1,68 @@
+import { Fragment, useState } from 'react'
 import type { Stop, Scenario } from '../lib/data/types'
-import { extractStopDetails } from '../lib/data/loadStops'
-import { Users, Ticket, Coins, HandCoins, StickyNote, Target } from 'lucide-react'
+import { getStopDetails, formatAmount, formatCapacity, formatMoney, formatPlaceName, type ReportingCurrency } from '../lib/data/loadStops'
+import { computeDealRange, dealFigure, type DealBook, type DealResult } from '../lib/finance/deal'
+import { stopVariance, type StopActuals, type VarianceLine } from '../lib/finance/actuals'
+import { stopAncillary, type AncillaryBook } from '../lib/finance/ancillary'
+import { compareStop, formatDelta, type ComparisonLine } from '../lib/finance/compare'
+import { EXPENSE_CATEGORIES, stopProfitAndLoss, type ExpenseBook } from '../lib/finance/expenses'
+import type { Pacing } from '../lib/finance/pacing'
+import { formatRange, mapRange, type Range } from '../lib/finance/range'
+import { formatCountdown, formatShowDate, formatTimeZoneLabel, getShowPhase, getShowStart } from '../lib/schedule/showTimes'
+import { formatDaysBetween, formatTravel, type TravelLeg } from '../lib/schedule/travel'
+import { useNow } from '../lib/schedule/useNow'
+import { formatDaysApart, RADIUS_COLORS, type RadiusClause, type RadiusConflict } from '../lib/routing/radiusClauses'
+import { ActualsForm } from './ActualsForm'
+import { PacingChart } from './PacingChart'
+import { Users, Ticket, Coins, HandCoins, StickyNote, Target, CalendarClock, Calculator, Receipt, ChevronDown, ChevronRight, ClipboardCheck, TrendingUp, GitCompare, ShoppingBag, Radius } from 'lucide-react'
 
 interface StopPanelProps {
   stop: Stop | null
   scenario: Scenario
+  /** Compare mode: every metric under this scenario too, with the delta */
+  compareScenario?: Scenario | null
+  deals: DealBook
+  expenses: ExpenseBook
+  ancillary: AncillaryBook
+  actuals: StopActuals | null
+  /** Ticket sales pacing; null when no sales are tracked for the stop */
+  pacing: Pacing | null
+  /** Legs from the previous stop and to the next one */
+  travelIn?: TravelLeg | null
+  travelOut?: TravelLeg | null
+  /** The stop's radius clause, if its contract has one */
+  radiusClause?: RadiusClause | null
+  /** Breaches of the stop's clause, and of other stops' clauses by this show */
+  radiusConflicts?: RadiusConflict[]
+  /** Saves actuals entered for a stop; null clears them */
+  onSaveActuals: (stopId: string, actuals: StopActuals | null) => void
+  /** Converts figures for display next to the originals */
+  reporting?: ReportingCurrency
 }
 
-export function StopPanel({ stop, scenario }: StopPanelProps) {
+/** e.g. 0.15825 -> "15.825%" */
+const formatRate = (rate: number) => `${Number((rate * 100).toFixed(3))}%`
+
+export function StopPanel({
+  stop,
+  scenario,
+  compareScenario,
+  deals,
+  expenses,
+  ancillary,
+  actuals,
+  pacing,
+  travelIn = null,
+  travelOut = null,
+  radiusClause = null,
+  radiusConflicts = [],
+  onSaveActuals,
+  reporting
+}: StopPanelProps) {
+  const now = useNow(1000)
+  const [showProfitAndLoss, setShowProfitAndLoss] = useState(false)
+  const [editingActualsFor, setEditingActualsFor] = useState<string | null>(null)
+
   if (!stop) {
     return (
       <div className="glass-panel p-xl flex items-center justify-center">
@@ -19,13 +74,41 @@ export function StopPanel({ stop, scenario }: StopPanelProps) {
     )
   }
 
-  const details = extractStopDetails(stop, scenario)
+  const deal = computeDealRange(stop, scenario, deals)
+  const dealAmount = (pick: (result: DealResult) => number) =>
+    deal ? formatAmount(dealFigure(deal, pick), deal.low.currency, reporting) : ''
+  const details = getStopDetails(stop, scenario, deal, reporting)
+  const pnl = stopProfitAndLoss(stop, scenario, deals, expenses)
+  const extras = stopAncillary(stop, scenario, deals, ancillary)
+  const extrasAmount = (value: Range) => formatAmount(value, pnl.currency, reporting)
+  const perHead = (amount: number) => `${formatMoney(amount, pnl.currency)}/head`
+  const pnlAmount = (value: number | Range | null) => value == null ? 'TBD' : formatAmount(value, pnl.currency, reporting)
+  const ProfitAndLossChevron = showProfitAndLoss ? ChevronDown : ChevronRight
+  const editingActuals = editingActualsFor === stop.id
+  const variance = actuals ? stopVariance(stop, scenario, deals, expenses, actuals) : []
+  const varianceValue = (line: VarianceLine, value: number) =>
+    line.isCount ? value.toLocaleString() : formatMoney(value, pnl.currency)
+  const comparison = compareScenario ? compareStop(stop, scenario, compareScenario, deals, expenses, ancillary) : []
+  const comparisonValue = (line: ComparisonLine, value: number) =>
+    line.isCount ? value.toLocaleString() : formatAmount(value, pnl.currency, reporting)
+  const comparisonRange = (line: ComparisonLine, value: Range | null) => {
+    if (!value) return 'TBD'
+    return line.isCount ? formatRange(value, count => count.toLocaleString()) : formatAmount(value, pnl.currency, reporting)
+  }
+  const phase = getShowPhase(stop, now)
+  const showStart = getShowStart(stop)
+  const tzLabel = formatTimeZoneLabel(stop)
+  const placeName = formatPlaceName(stop)
+  const travel = [
+    travelIn && { label: `From ${travelIn.fromCity}`, leg: travelIn },
+    travelOut && { label: `To ${travelOut.toCity}`, leg: travelOut }
+  ].filter(item => item != null)
 
   const bulletItems = [
     { label: 'Capacity', value: details.capacity, Icon: Users },
     { label: 'Ticket Price', value: details.ticketPrice, Icon: Ticket },
     { label: 'Projected Gross', value: details.projectedGross, Icon: Coins },
-    { label: 'Net/Guarantee', value: details.netGuarantee, Icon: HandCoins },
+    { label: deal ? 'Artist Payout' : 'Net/Guarantee', value: details.netGuarantee, Icon: HandCoins },
     { label: 'Notes', value: details.notes, Icon: StickyNote },
     { label: 'Market Rationale', value: details.marketRationale, Icon: Target }
   ]
@@ -60,8 +143,23 @@ export function StopPanel({ stop, scenario }: StopPanelProps) {
               border: '1px solid var(--border)'
             }}
           >
-            {stop.countryCode}
+            {stop.countryCode ?? '—'}
           </span>
+          {stop.status && (
+            <span 
+              style={{
+                fontSize: 'var(--font-size-xs)',
+                textTransform: 'capitalize',
+                color: stop.status === 'cancelled' ? 'var(--text-muted)' : 'var(--text-secondary)',
+                padding: 'var(--space-1) var(--space-2)',
+                borderRadius: 'var(--radius-sm)',
+                border: '1px solid var(--border)',
+                textDecoration: stop.status === 'cancelled' ? 'line-through' : 'none'
+              }}
+            >
+              {stop.status}
+            </span>
+          )}
         </div>
         <h3 
           style={{ 
@@ -72,6 +170,17 @@ export function StopPanel({ stop, scenario }: StopPanelProps) {
         >
           {stop.venue}
         </h3>
+        {placeName && (
+          <div 
+            style={{ 
+              fontSize: 'var(--font-size-sm)',
+              color: 'var(--text-muted)',
+              marginTop: 'var(--space-1)'
+            }}
+          >
+            {placeName}
+          </div>
+        )}
         {stop.lat && stop.lng && (
           <div 
             style={{ 
@@ -82,10 +191,151 @@ export function StopPanel({ stop, scenario }: StopPanelProps) {
             }}
           >
             {stop.lat.toFixed(4)}, {stop.lng.toFixed(4)}
+            {stop.geocodeSource === 'city' && (
+              <span title="Placed at the city centre by the offline gazetteer; venue not yet confirmed">
+                {' '}· approx.
+              </span>
+            )}
           </div>
         )}
       </div>
 
+      {/* Schedule */}
+      <div 
+        style={{ 
+          display: 'flex',
+          alignItems: 'flex-start',
+          justifyContent: 'space-between',
+          gap: 'var(--space-3)',
+          padding: 'var(--space-3)',
+          marginBottom: 'var(--space-5)',
+          background: 'rgba(12, 16, 24, 0.25)',
+          border: '1px solid var(--border)',
+          borderRadius: 'var(--radius-md)'
+        }}
+      >
+        <div style={{ display: 'flex', alignItems: 'flex-start', gap: 'var(--space-3)' }}>
+          <CalendarClock size={16} style={{ color: 'var(--text-muted)', opacity: 0.7, marginTop: 2 }} />
+          <div>
+            <div style={{ fontSize: 'var(--font-size-sm)', color: 'var(--text)' }}>
+              {formatShowDate(stop)}
+            </div>
+            <div style={{ fontSize: 'var(--font-size-xs)', color: 'var(--text-muted)', marginTop: 'var(--space-1)' }}>
+              Doors {stop.doorsTime ?? 'TBD'} · Show {stop.showTime ?? 'TBD'}
+              {tzLabel ? ` ${tzLabel}` : ''}
+            </div>
+          </div>
+        </div>
+        <div 
+          className="countdown"
+          style={{ 
+            fontSize: 'var(--font-size-sm)',
+            fontWeight: 'var(--font-weight-semibold)',
+            color: phase === 'played' ? 'var(--text-muted)' : 'var(--accent)',
+            whiteSpace: 'nowrap'
+          }}
+        >
+          {phase === 'upcoming' && showStart != null && formatCountdown(showStart - now)}
+          {phase === 'live' && 'Tonight'}
+          {phase === 'played' && 'Played'}
+        </div>
+      </div>
+
+      {/* Travel */}
+      {travel.length > 0 && (
+        <div 
+          style={{ 
+            display: 'grid',
+            gridTemplateColumns: 'auto 1fr',
+            rowGap: 'var(--space-1)',
+            columnGap: 'var(--space-3)',
+            marginTop: 'calc(-1 * var(--space-3))',
+            marginBottom: 'var(--space-5)',
+            paddingLeft: 'var(--space-3)',
+            fontSize: 'var(--font-size-xs)',
+            color: 'var(--text-muted)'
+          }}
+        >
+          {travel.map(({ label, leg }) => {
+            const daysBetween = formatDaysBetween(leg)
+            return (
+              <Fragment key={label}>
+                <span>{label}</span>
+                <span 
+                  style={{ textAlign: 'right', fontFamily: 'var(--font-family-mono)', color: 'var(--text-secondary)' }}
+                  title={leg.travelDays > 0 ? `${leg.travelDays} travel ${leg.travelDays === 1 ? 'day' : 'days'}` : 'Travel on show day'}
+                >
+                  {formatTravel(leg)}{daysBetween && ` · ${daysBetween}`}
+                </span>
+              </Fragment>
+            )
+          })}
+        </div>
+      )}
+
+      {/* Radius Clause */}
+      {(radiusClause || radiusConflicts.length > 0) && (
+        <div style={{ marginBottom: 'var(--space-5)' }}>
+          <div style={{ display: 'flex', alignItems: 'center', gap: 'var(--space-2)', marginBottom: 'var(--space-2)' }}>
+            <Radius size={14} style={{ color: 'var(--text-muted)', opacity: 0.7 }} />
+            <span 
+              style={{ 
+                fontSize: 'var(--font-size-sm)',
+                fontWeight: 'var(--font-weight-medium)',
+                color: 'var(--text-secondary)'
+              }}
+            >
+              Radius Clause
+            </span>
+          </div>
+          <div 
+            style={{ 
+              display: 'grid',
+              gridTemplateColumns: '1fr auto',
+              rowGap: 'var(--space-1)',
+              columnGap: 'var(--space-3)',
+              paddingLeft: 'var(--space-5)',
+              fontSize: 'var(--font-size-xs)',
+              color: 'var(--text-secondary)'
+            }}
+          >
+            {radiusClause ? (
+              <>
+                <span style={{ color: 'var(--text-muted)' }} title={radiusClause.notes}>
+                  No other show within
+                </span>
+                <span style={{ textAlign: 'right', fontFamily: 'var(--font-family-mono)' }}>
+                  {radiusClause.radiusKm.toLocaleString()} km · {radiusClause.daysBefore}d before to {radiusClause.daysAfter}d after
+                </span>
+              </>
+            ) : (
+              <span style={{ gridColumn: '1 / -1', color: 'var(--text-muted)' }}>No radius clause</span>
+            )}
+            {radiusConflicts.map(conflict => {
+              const ownClause = conflict.stopId === stop.id
+              return (
+                <Fragment key={`${conflict.stopId}>${conflict.otherStopId}`}>
+                  <span 
+                    style={{ color: RADIUS_COLORS.breached }}
+                    title={ownClause ? `${conflict.otherVenue} breaches this stop's clause` : `This show breaches ${conflict.city}'s clause`}
+                  >
+                    {ownClause ? `Breached by ${conflict.otherCity}` : `Breaches ${conflict.city}'s clause`}
+                  </span>
+                  <span style={{ textAlign: 'right', fontFamily: 'var(--font-family-mono)' }}>
+                    {Math.round(conflict.distanceKm).toLocaleString()} km · {formatDaysApart(conflict.daysApart)}
+                  </span>
+                </Fragment>
+              )
+            })}
+            {radiusClause && !radiusConflicts.some(conflict => conflict.stopId === stop.id) && (
+              <span style={{ gridColumn: '1 / -1', color: 'var(--text-muted)' }}>
+                No breaches among dated stops
+              </span>
+            )}
+          </div>
+        </div>
+      )}
+
       {/* Scenario Indicator */}
       <div style={{ marginBottom: 'var(--space-5)' }}>
         <div style={{ display: 'flex', alignItems: 'center', gap: 'var(--space-2)' }}>
@@ -98,17 +348,23 @@ export function StopPanel({ stop, scenario }: StopPanelProps) {
               fontWeight: 'var(--font-weight-semibold)',
               padding: 'var(--space-1) var(--space-2)',
               borderRadius: 'var(--radius-sm)',
-              background: scenario === 'upside' 
-                ? 'rgba(231, 209, 167, 0.1)' 
-                : 'var(--panel)',
-              color: scenario === 'upside' 
-                ? 'var(--accent)' 
-                : 'var(--text-secondary)',
+              background: scenario.id === 'base' 
+                ? 'var(--panel)' 
+                : 'rgba(231, 209, 167, 0.1)',
+              color: scenario.id === 'base' 
+                ? 'var(--text-secondary)' 
+                : 'var(--accent)',
               border: '1px solid var(--border)'
             }}
+            title={scenario.description}
           >
-            {scenario === 'base' ? 'Base Scenario' : 'Upside Scenario'}
+            {scenario.name} Scenario
           </span>
+          {compareScenario && (
+            <span style={{ fontSize: 'var(--font-size-xs)', color: 'var(--text-muted)' }} title={compareScenario.description}>
+              vs. {compareScenario.name}
+            </span>
+          )}
         </div>
       </div>
 
@@ -191,6 +447,343 @@ export function StopPanel({ stop, scenario }: StopPanelProps) {
         ))}
       </div>
 
+      {/* Scenario Comparison */}
+      {compareScenario && (
+        <div style={{ marginBottom: 'var(--space-6)' }}>
+          <div style={{ display: 'flex', alignItems: 'center', gap: 'var(--space-2)', marginBottom: 'var(--space-2)' }}>
+            <GitCompare size={14} style={{ color: 'var(--text-muted)', opacity: 0.7 }} />
+            <span 
+              style={{ 
+                fontSize: 'var(--font-size-sm)',
+                fontWeight: 'var(--font-weight-medium)',
+                color: 'var(--text-secondary)'
+              }}
+            >
+              Compare
+            </span>
+          </div>
+          <div 
+            style={{ 
+              display: 'grid',
+              gridTemplateColumns: '1fr auto auto auto',
+              rowGap: 'var(--space-1)',
+              columnGap: 'var(--space-3)',
+              paddingLeft: 'var(--space-5)',
+              fontSize: 'var(--font-size-xs)',
+              fontFamily: 'var(--font-family-mono)',
+              color: 'var(--text-secondary)',
+              textAlign: 'right'
+            }}
+          >
+            {['', scenario.name, compareScenario.name, 'Delta'].map((heading, index) => (
+              <span key={index} style={{ color: 'var(--text-muted)', fontFamily: 'var(--font-family)' }}>{heading}</span>
+            ))}
+            {comparison.map(line => (
+              <Fragment key={line.label}>
+                <span style={{ color: 'var(--text-muted)', textAlign: 'left', fontFamily: 'var(--font-family)' }}>{line.label}</span>
+                <span>{comparisonRange(line, line.from)}</span>
+                <span>{comparisonRange(line, line.to)}</span>
+                <span style={{ color: line.delta && (line.delta.absolute.low || line.delta.absolute.high) ? 'var(--accent)' : 'var(--text-muted)' }}>
+                  {line.delta ? formatDelta(line.delta, value => comparisonValue(line, value)) : '—'}
+                </span>
+              </Fragment>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Ticket Sales */}
+      {pacing && (
+        <div style={{ marginBottom: 'var(--space-6)' }}>
+          <div style={{ display: 'flex', alignItems: 'center', gap: 'var(--space-2)', marginBottom: 'var(--space-2)' }}>
+            <TrendingUp size={14} style={{ color: 'var(--text-muted)', opacity: 0.7 }} />
+            <span 
+              style={{ 
+                fontSize: 'var(--font-size-sm)',
+                fontWeight: 'var(--font-weight-medium)',
+                color: 'var(--text-secondary)'
+              }}
+            >
+              Ticket Sales
+            </span>
+            <span style={{ marginLeft: 'auto', fontSize: 'var(--font-size-xs)', color: 'var(--text-muted)' }}>
+              {formatAmount(pacing.gross, pnl.currency, reporting)}
+            </span>
+          </div>
+          <div style={{ paddingLeft: 'var(--space-5)' }}>
+            <PacingChart pacing={pacing} showDate={stop.date} />
+          </div>
+        </div>
+      )}
+
+      {/* Deal Breakdown */}
+      {deal && (
+        <div style={{ marginBottom: 'var(--space-6)' }}>
+          <div style={{ display: 'flex', alignItems: 'center', gap: 'var(--space-2)', marginBottom: 'var(--space-2)' }}>
+            <Calculator size={14} style={{ color: 'var(--text-muted)', opacity: 0.7 }} />
+            <span 
+              style={{ 
+                fontSize: 'var(--font-size-sm)',
+                fontWeight: 'var(--font-weight-medium)',
+                color: 'var(--text-secondary)'
+              }}
+            >
+              Deal
+            </span>
+          </div>
+          <div 
+            style={{ 
+              display: 'grid',
+              gridTemplateColumns: '1fr auto',
+              rowGap: 'var(--space-1)',
+              columnGap: 'var(--space-3)',
+              paddingLeft: 'var(--space-5)',
+              fontSize: 'var(--font-size-xs)',
+              color: 'var(--text-secondary)'
+            }}
+          >
+            {[
+              [
+                `Tickets (${Math.round(deal.low.ticketsSold / deal.low.capacity * 100)}% of ${formatCapacity(stop.capacityMin, stop.capacityMax)})`,
+                formatRange(dealFigure(deal, d => d.ticketsSold), count => count.toLocaleString())
+              ],
+              ['Average price', dealAmount(d => d.averagePrice)],
+              ['Gross box office', dealAmount(d => d.grossBoxOffice)],
+              ['Less taxes', dealAmount(d => -d.taxes)],
+              ['Less ticketing & facility fees', dealAmount(d => -d.fees)],
+              // Both ends of the range apply the same rules, in the same order
+              ...deal.low.levies.map((levy, index) => [
+                `Less ${levy.name} (${formatRate(levy.rate)} of ${levy.basis})`,
+                dealAmount(d => -d.levies[index].amount)
+              ]),
+              ['Net box office', dealAmount(d => d.netBoxOffice)],
+              ['Less promoter costs', dealAmount(d => -d.promoterCosts)],
+              [`Versus (${Math.round(deal.low.versusPercent * 100)}% of net after costs)`, dealAmount(d => d.versusAmount)],
+              ['Guarantee', dealAmount(d => d.guarantee)],
+              [
+                `Artist payout (${deal.low.payoutBasis === deal.high.payoutBasis ? deal.low.payoutBasis : `${deal.low.payoutBasis} to ${deal.high.payoutBasis}`})`,
+                dealAmount(d => d.artistPayout)
+              ],
+              ...deal.low.withholding.map((tax, index) => [
+                `Less ${tax.name} (${formatRate(tax.rate)} withheld)`,
+                dealAmount(d => -d.withholding[index].amount)
+              ]),
+              ...(deal.low.withholding.length > 0 ? [['Artist net after withholding', dealAmount(d => d.artistNet)]] : []),
+              ['Promoter result', dealAmount(d => d.promoterResult)]
+            ].map(([label, value]) => (
+              <Fragment key={label}>
+                <span style={{ color: 'var(--text-muted)' }}>{label}</span>
+                <span style={{ textAlign: 'right', fontFamily: 'var(--font-family-mono)' }}>{value}</span>
+              </Fragment>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Ancillary Revenue */}
+      {extras && extras.artistRevenue.high > 0 && (
+        <div style={{ marginBottom: 'var(--space-6)' }}>
+          <div style={{ display: 'flex', alignItems: 'center', gap: 'var(--space-2)', marginBottom: 'var(--space-2)' }}>
+            <ShoppingBag size={14} style={{ color: 'var(--text-muted)', opacity: 0.7 }} />
+            <span 
+              style={{ 
+                fontSize: 'var(--font-size-sm)',
+                fontWeight: 'var(--font-weight-medium)',
+                color: 'var(--text-secondary)'
+              }}
+            >
+              Ancillary Revenue
+            </span>
+          </div>
+          <div 
+            style={{ 
+              display: 'grid',
+              gridTemplateColumns: '1fr auto',
+              rowGap: 'var(--space-1)',
+              columnGap: 'var(--space-3)',
+              paddingLeft: 'var(--space-5)',
+              fontSize: 'var(--font-size-xs)',
+              color: 'var(--text-secondary)'
+            }}
+          >
+            {[
+              ['Attendance', formatRange(extras.attendance, count => count.toLocaleString())],
+              [`Merch (${perHead(extras.terms.merchPerHead)})`, extrasAmount(extras.merchGross)],
+              [`Less venue commission (${formatRate(extras.terms.merchCommission)})`, extrasAmount(mapRange(extras.merchCommission, value => -value))],
+              [`VIP packages (${perHead(extras.terms.vipPerHead)})`, extrasAmount(extras.vip)],
+              [`F&B sales (${perHead(extras.terms.fbPerHead)})`, extrasAmount(extras.fbGross)],
+              [`Artist F&B share (${formatRate(extras.terms.fbShare)})`, extrasAmount(extras.fbShare)],
+              ['Artist ancillary revenue', extrasAmount(extras.artistRevenue)]
+            ].map(([label, value]) => (
+              <Fragment key={label}>
+                <span style={{ color: 'var(--text-muted)' }}>{label}</span>
+                <span style={{ textAlign: 'right', fontFamily: 'var(--font-family-mono)' }}>{value}</span>
+              </Fragment>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Profit & Loss */}
+      <div style={{ marginBottom: 'var(--space-6)' }}>
+        <button
+          onClick={() => setShowProfitAndLoss(!showProfitAndLoss)}
+          aria-expanded={showProfitAndLoss}
+          style={{
+            display: 'flex',
+            alignItems: 'center',
+            gap: 'var(--space-2)',
+            width: '100%',
+            marginBottom: 'var(--space-2)',
+            padding: 0,
+            background: 'transparent',
+            border: 'none',
+            cursor: 'pointer'
+          }}
+        >
+          <Receipt size={14} style={{ color: 'var(--text-muted)', opacity: 0.7 }} />
+          <span 
+            style={{ 
+              fontSize: 'var(--font-size-sm)',
+              fontWeight: 'var(--font-weight-medium)',
+              color: 'var(--text-secondary)'
+            }}
+          >
+            Profit &amp; Loss
+          </span>
+          <span 
+            style={{ 
+              marginLeft: 'auto',
+              fontSize: 'var(--font-size-xs)',
+              fontFamily: 'var(--font-family-mono)',
+              color: pnl.profit && pnl.profit.high < 0 ? 'var(--text-muted)' : 'var(--text)'
+            }}
+          >
+            {pnlAmount(pnl.profit)}
+          </span>
+          <ProfitAndLossChevron size={14} style={{ color: 'var(--text-muted)' }} />
+        </button>
+        {showProfitAndLoss && (
+          <div 
+            style={{ 
+              display: 'grid',
+              gridTemplateColumns: '1fr auto',
+              rowGap: 'var(--space-1)',
+              columnGap: 'var(--space-3)',
+              paddingLeft: 'var(--space-5)',
+              fontSize: 'var(--font-size-xs)',
+              color: 'var(--text-secondary)'
+            }}
+          >
+            {[
+              // Income is the artist net, so withholding is itemized as in the deal
+              ...(deal && deal.low.withholding.length > 0
+                ? [
+                    ['Artist payout', dealAmount(d => d.artistPayout)],
+                    ['Less withholding', dealAmount(d => d.artistNet - d.artistPayout)],
+                    ['Artist net after withholding', pnlAmount(pnl.income)]
+                  ]
+                : [[deal ? 'Artist payout' : 'Net/guarantee', pnlAmount(pnl.income)]]),
+              ...EXPENSE_CATEGORIES.map(({ key, label }) => [`Less ${label.toLowerCase()}`, pnlAmount(-pnl.expenses[key])]),
+              ['Total costs', pnlAmount(pnl.totalExpenses)],
+              ['Profit', pnlAmount(pnl.profit)],
+              ['Margin', pnl.margin ? formatRange(pnl.margin, margin => `${Math.round(margin * 100)}%`) : '—']
+            ].map(([label, value]) => (
+              <Fragment key={label}>
+                <span style={{ color: 'var(--text-muted)' }}>{label}</span>
+                <span style={{ textAlign: 'right', fontFamily: 'var(--font-family-mono)' }}>{value}</span>
+              </Fragment>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Actuals */}
+      {(phase === 'played' || actuals || editingActuals) && (
+        <div style={{ marginBottom: 'var(--space-6)' }}>
+          <div style={{ display: 'flex', alignItems: 'center', gap: 'var(--space-2)', marginBottom: 'var(--space-2)' }}>
+            <ClipboardCheck size={14} style={{ color: 'var(--text-muted)', opacity: 0.7 }} />
+            <span 
+              style={{ 
+                fontSize: 'var(--font-size-sm)',
+                fontWeight: 'var(--font-weight-medium)',
+                color: 'var(--text-secondary)'
+              }}
+            >
+              Actuals
+            </span>
+            {actuals?.settledOn && (
+              <span style={{ fontSize: 'var(--font-size-xs)', color: 'var(--text-muted)' }}>
+                settled {actuals.settledOn}
+              </span>
+            )}
+            {!editingActuals && (
+              <button
+                onClick={() => setEditingActualsFor(stop.id)}
+                style={{
+                  marginLeft: 'auto',
+                  fontSize: 'var(--font-size-xs)',
+                  color: 'var(--accent)',
+                  background: 'transparent',
+                  border: 'none',
+                  cursor: 'pointer'
+                }}
+              >
+                {actuals ? 'Edit' : 'Enter'}
+              </button>
+            )}
+          </div>
+          {editingActuals ? (
+            <ActualsForm
+              key={stop.id}
+              actuals={actuals}
+              currency={pnl.currency}
+              onSave={(entered) => {
+                onSaveActuals(stop.id, entered)
+                setEditingActualsFor(null)
+              }}
+              onCancel={() => setEditingActualsFor(null)}
+              onClear={actuals ? () => {
+                onSaveActuals(stop.id, null)
+                setEditingActualsFor(null)
+              } : undefined}
+            />
+          ) : actuals ? (
+            <div 
+              style={{ 
+                display: 'grid',
+                gridTemplateColumns: '1fr auto auto auto',
+                rowGap: 'var(--space-1)',
+                columnGap: 'var(--space-3)',
+                paddingLeft: 'var(--space-5)',
+                fontSize: 'var(--font-size-xs)',
+                fontFamily: 'var(--font-family-mono)',
+                color: 'var(--text-secondary)',
+                textAlign: 'right'
+              }}
+            >
+              {['', 'Projected', 'Actual', 'Variance'].map(heading => (
+                <span key={heading} style={{ color: 'var(--text-muted)', fontFamily: 'var(--font-family)' }}>{heading}</span>
+              ))}
+              {variance.map(line => (
+                <Fragment key={line.label}>
+                  <span style={{ color: 'var(--text-muted)', textAlign: 'left', fontFamily: 'var(--font-family)' }}>{line.label}</span>
+                  <span>{line.projected ? formatRange(line.projected, value => varianceValue(line, value)) : 'TBD'}</span>
+                  <span>{line.actual != null ? varianceValue(line, line.actual) : '—'}</span>
+                  <span style={{ color: line.variance ? 'var(--accent)' : 'var(--text-muted)' }}>
+                    {line.variance == null ? '—' : `${line.variance > 0 ? '+' : ''}${varianceValue(line, line.variance)}`}
+                  </span>
+                </Fragment>
+              ))}
+            </div>
+          ) : (
+            <div style={{ paddingLeft: 'var(--space-5)', fontSize: 'var(--font-size-xs)', color: 'var(--text-muted)', fontStyle: 'italic' }}>
+              Not settled yet
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Notes Section */}
       <div style={{ display: 'flex', flexDirection: 'column', gap: 'var(--space-4)' }}>
         {notes.map((item, index) => (
@@ -1,40 +1,74 @@
-import type { Stop } from '../lib/data/types'
-import { extractStopDetails } from '../lib/data/loadStops'
-
-/** Parse numeric value from strings like "$1.2M", "1,200,000", "TBD" */
-function parseNumericValue(s: string): number | null {
-  if (!s || s === 'TBD') return null
-  const cleaned = s.replace(/[$,KMkm]/g, '').replace(/\s/g, '')
-  const num = parseFloat(cleaned.replace(/,/g, ''))
-  if (Number.isNaN(num)) return null
-  if (/M|m/i.test(s)) return num * 1_000_000
-  if (/K|k/i.test(s)) return num * 1_000
-  return num
-}
-
-function formatCurrency(val: number): string {
-  if (val >= 1_000_000) return `$${(val / 1_000_000).toFixed(1)}M`
-  if (val >= 1_000) return `$${(val / 1_000).toFixed(0)}K`
-  return `$${val.toLocaleString()}`
-}
+import type { Stop, Scenario } from '../lib/data/types'
+import { formatMoneyCompact } from '../lib/data/loadStops'
+import { projectTotals } from '../lib/finance/totals'
+import { actualsToDate, type ActualsBook } from '../lib/finance/actuals'
+import { ancillaryTotals, type AncillaryBook } from '../lib/finance/ancillary'
+import { compareTotals, deltaOf, formatDelta, type Delta } from '../lib/finance/compare'
+import type { DealBook } from '../lib/finance/deal'
+import type { ExpenseBook } from '../lib/finance/expenses'
+import { listCurrencies, type FxTable } from '../lib/finance/fx'
+import { formatRange, type Range } from '../lib/finance/range'
+import { travelTotals, type TravelLeg } from '../lib/schedule/travel'
 
 interface SummaryStripProps {
   stops: Stop[]
-  scenario: 'base' | 'upside'
+  scenario: Scenario
+  /** Compare mode: totals show how far this scenario moves them */
+  compareScenario?: Scenario | null
+  deals: DealBook
+  expenses: ExpenseBook
+  ancillary: AncillaryBook
+  actuals: ActualsBook
+  /** Legs between consecutive stops, see travel.ts */
+  travelLegs: TravelLeg[]
+  fx: FxTable
+  reportingCurrency: string
+  onReportingCurrencyChange: (currency: string) => void
 }
 
-export function SummaryStrip({ stops, scenario }: SummaryStripProps) {
+export function SummaryStrip({
+  stops,
+  scenario,
+  compareScenario,
+  deals,
+  expenses,
+  ancillary,
+  actuals,
+  travelLegs,
+  fx,
+  reportingCurrency,
+  onReportingCurrencyChange
+}: SummaryStripProps) {
   const dates = stops.length
-  let totalGross: number | null = null
-  let totalNet: number | null = null
-
-  for (const stop of stops) {
-    const d = extractStopDetails(stop, scenario)
-    const g = parseNumericValue(d.projectedGross)
-    const n = parseNumericValue(d.netGuarantee)
-    if (g != null) totalGross = (totalGross ?? 0) + g
-    if (n != null) totalNet = (totalNet ?? 0) + n
-  }
+  const travel = travelTotals(stops, travelLegs)
+  const totals = projectTotals(stops, scenario, deals, expenses, fx, reportingCurrency)
+  const total = (value: Range | null) =>
+    value != null ? formatRange(value, amount => formatMoneyCompact(amount, reportingCurrency)) : 'TBD'
+  const ancillaryTotal = ancillaryTotals(stops, scenario, deals, ancillary, fx, reportingCurrency)
+  const deltas = compareScenario
+    ? compareTotals(totals, projectTotals(stops, compareScenario, deals, expenses, fx, reportingCurrency))
+    : null
+  const comparedAncillary = compareScenario
+    ? ancillaryTotals(stops, compareScenario, deals, ancillary, fx, reportingCurrency).artistRevenue
+    : null
+  const ancillaryDelta = compareScenario
+    ? ancillaryTotal.artistRevenue && comparedAncillary && deltaOf(ancillaryTotal.artistRevenue, comparedAncillary)
+    : undefined
+  const delta = (value: Delta | null | undefined) => value !== undefined && (
+    <span className="summary-strip__delta" title={`${compareScenario?.name} vs. ${scenario.name}`}>
+      {value ? formatDelta(value, amount => formatMoneyCompact(amount, reportingCurrency)) : '—'}
+    </span>
+  )
+  const toDate = actualsToDate(stops, scenario, deals, actuals, fx, reportingCurrency)
+  const excludedToDate = toDate.unconverted.length > 0
+    ? `Excludes figures in ${toDate.unconverted.join(', ')} (no FX rate)`
+    : undefined
+  const excluded = totals.unconverted.length > 0
+    ? `Excludes figures in ${totals.unconverted.join(', ')} (no FX rate)`
+    : undefined
+  const excludedAncillary = ancillaryTotal.unconverted.length > 0
+    ? `Excludes figures in ${ancillaryTotal.unconverted.join(', ')} (no FX rate)`
+    : undefined
 
   return (
     <div className="summary-strip">
@@ -43,15 +77,89 @@ export function SummaryStrip({ stops, scenario }: SummaryStripProps) {
         <strong>{dates}</strong>
       </span>
       <span className="summary-strip__divider" />
-      <span className="summary-strip__item">
+      <span
+        className="summary-strip__item"
+        title={travel.unmeasured > 0 ? `Excludes ${travel.unmeasured} ${travel.unmeasured === 1 ? 'leg' : 'legs'} without coordinates` : undefined}
+      >
+        Travel
+        <strong>{Math.round(travel.distanceKm).toLocaleString()} km</strong>
+        <strong>{travel.travelDays}</strong>
+        {travel.travelDays === 1 ? 'travel day' : 'travel days'}
+        {travel.unmeasured > 0 && '*'}
+      </span>
+      <span className="summary-strip__divider" />
+      <span className="summary-strip__item" title={excluded}>
         Projected gross
-        <strong>{totalGross != null ? formatCurrency(totalGross) : 'TBD'}</strong>
+        <strong>{total(totals.grossBoxOffice)}</strong>
+        {delta(deltas?.grossBoxOffice)}
+        {excluded && '*'}
       </span>
       <span className="summary-strip__divider" />
-      <span className="summary-strip__item">
+      <span className="summary-strip__item" title={excluded}>
+        Net box office
+        <strong>{total(totals.netBoxOffice)}</strong>
+        {delta(deltas?.netBoxOffice)}
+        {excluded && '*'}
+      </span>
+      <span className="summary-strip__divider" />
+      <span className="summary-strip__item" title={excluded}>
         Net/guarantee
-        <strong>{totalNet != null ? formatCurrency(totalNet) : 'TBD'}</strong>
+        <strong>{total(totals.artistPayout)}</strong>
+        {delta(deltas?.artistPayout)}
+        {excluded && '*'}
       </span>
+      <span className="summary-strip__divider" />
+      <span className="summary-strip__item" title={excludedAncillary ?? 'Merch after venue commission, VIP and the F&B share'}>
+        Ancillary
+        <strong>{total(ancillaryTotal.artistRevenue)}</strong>
+        {delta(ancillaryDelta)}
+        {excludedAncillary && '*'}
+      </span>
+      <span className="summary-strip__divider" />
+      <span className="summary-strip__item" title={excluded}>
+        Costs
+        <strong>{formatMoneyCompact(totals.expenses, reportingCurrency)}</strong>
+        {excluded && '*'}
+      </span>
+      <span className="summary-strip__divider" />
+      <span className="summary-strip__item" title={excluded}>
+        Tour profit
+        <strong>{total(totals.profit)}</strong>
+        {totals.margin && (
+          <span>{formatRange(totals.margin, margin => `${Math.round(margin * 100)}%`)} margin</span>
+        )}
+        {delta(deltas?.profit)}
+        {excluded && '*'}
+      </span>
+      {toDate.settledStops > 0 && (
+        <>
+          <span className="summary-strip__divider" />
+          <span
+            className="summary-strip__item"
+            title={`Actual vs. projected over ${toDate.settledStops} settled ${toDate.settledStops === 1 ? 'stop' : 'stops'}; net is after withholding${excludedToDate ? `. ${excludedToDate}` : ''}`}
+          >
+            Settled {toDate.settledStops}/{dates}
+            <strong>{toDate.actualGross != null ? formatMoneyCompact(toDate.actualGross, reportingCurrency) : 'TBD'}</strong>
+            gross vs. {total(toDate.projectedGross)}
+            <strong>{toDate.actualNet != null ? formatMoneyCompact(toDate.actualNet, reportingCurrency) : 'TBD'}</strong>
+            net vs. {total(toDate.projectedNet)}
+            {excludedToDate && '*'}
+          </span>
+        </>
+      )}
+      <span className="summary-strip__divider" />
+      <label className="summary-strip__item" title={`FX rates as of ${fx.asOf}`}>
+        Currency
+        <select
+          className="summary-strip__select"
+          value={reportingCurrency}
+          onChange={(e) => onReportingCurrencyChange(e.target.value)}
+        >
+          {listCurrencies(fx).map(code => (
+            <option key={code} value={code}>{code}</option>
+          ))}
+        </select>
+      </label>
     </div>
   )
 }
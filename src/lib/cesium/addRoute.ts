@@ -11,12 +11,16 @@ import {
   ConstantProperty
 } from 'cesium'
 import type { Stop } from '../data/types'
+import { ROUTING_COLORS, type RoutingSeverity } from '../routing/feasibility'
+
+const ROUTE_COLOR = '#D4AF37'
 
 /**
- * Build arc positions between two exact endpoints.
+ * Build arc positions between two exact endpoints, with the leg's great-circle
+ * distance in metres (see src/lib/schedule/travel.ts for the travel estimates).
  * Uses the EXACT start/end Cartesian3 (no recomputation) for perfect marker alignment.
  */
-function buildArcPositions(start: Cartesian3, end: Cartesian3): Cartesian3[] {
+function buildArcPositions(start: Cartesian3, end: Cartesian3): { positions: Cartesian3[]; surfaceDistance: number } {
   const startCarto = Cartographic.fromCartesian(start, Ellipsoid.WGS84)
   const endCarto = Cartographic.fromCartesian(end, Ellipsoid.WGS84)
   const geodesic = new EllipsoidGeodesic(startCarto, endCarto, Ellipsoid.WGS84)
@@ -35,7 +39,7 @@ function buildArcPositions(start: Cartesian3, end: Cartesian3): Cartesian3[] {
     out.push(Cartesian3.fromRadians(c.longitude, c.latitude, c.height))
   }
   out.push(end)
-  return out
+  return { positions: out, surfaceDistance }
 }
 
 /**
@@ -49,6 +53,8 @@ export class RouteManager {
   private viewer: Viewer
   private routeEntities: Entity[] = []
   private lastRouteStopIds = ''
+  /** Routing problems per leg, keyed "fromStopId>toStopId" (see flaggedLegs) */
+  private flaggedLegs = new Map<string, RoutingSeverity>()
 
   constructor(viewer: Viewer) {
     this.viewer = viewer
@@ -94,14 +100,16 @@ export class RouteManager {
       }
     }
 
-    console.log(`[Route] Added ${this.routeEntities.length} route segments`)
+    this.applyFlags()
+    const totalKm = this.getSegmentDistances().reduce((sum, metres) => sum + metres, 0) / 1000
+    console.log(`[Route] Added ${this.routeEntities.length} route segments (${Math.round(totalKm).toLocaleString()} km)`)
   }
 
   /**
    * Creates a single route segment between two exact positions (same Cartesian3 as markers)
    */
   private createRouteSegment(start: Cartesian3, end: Cartesian3, fromStopId: string, toStopId: string, segmentIndex: number): Entity {
-    const positions = buildArcPositions(start, end)
+    const { positions, surfaceDistance } = buildArcPositions(start, end)
 
     // Create visible polyline with deeper golden glow
     const routeEntity = new Entity({
@@ -114,7 +122,7 @@ export class RouteManager {
         material: new PolylineGlowMaterialProperty({
           glowPower: new ConstantProperty(0.3), // More visible glow
           taperPower: new ConstantProperty(1.0), // No taper for consistent visibility
-          color: new ConstantProperty(Color.fromCssColorString('#D4AF37').withAlpha(0.95)) // Deeper golden color
+          color: new ConstantProperty(Color.fromCssColorString(ROUTE_COLOR).withAlpha(0.95)) // Deeper golden color
         }),
         // Maximum stability rendering properties
         show: true, // Use primitive boolean for maximum stability
@@ -124,7 +132,7 @@ export class RouteManager {
         depthFailMaterial: new PolylineGlowMaterialProperty({
           glowPower: new ConstantProperty(0.2),
           taperPower: new ConstantProperty(1.0),
-          color: new ConstantProperty(Color.fromCssColorString('#D4AF37').withAlpha(0.7))
+          color: new ConstantProperty(Color.fromCssColorString(ROUTE_COLOR).withAlpha(0.7))
         })
       },
       // Store route metadata
@@ -132,13 +140,44 @@ export class RouteManager {
         isRouteSegment: true,
         fromStopId,
         toStopId,
-        segmentIndex
+        segmentIndex,
+        distanceMeters: surfaceDistance
       }
     })
 
     return routeEntity
   }
 
+  /**
+   * Colours legs with routing problems by their worst severity; the rest keep the route colour
+   */
+  setFlaggedLegs(flags: Map<string, RoutingSeverity>): void {
+    this.flaggedLegs = flags
+    this.applyFlags()
+    this.viewer.scene.requestRender()
+  }
+
+  private applyFlags(): void {
+    for (const entity of this.routeEntities) {
+      const polyline = entity.polyline
+      if (!polyline) continue
+      const from = entity.properties?.fromStopId?.getValue()
+      const to = entity.properties?.toStopId?.getValue()
+      const severity = this.flaggedLegs.get(`${from}>${to}`)
+      const color = Color.fromCssColorString(severity ? ROUTING_COLORS[severity] : ROUTE_COLOR)
+      polyline.material = new PolylineGlowMaterialProperty({
+        glowPower: new ConstantProperty(severity ? 0.35 : 0.3),
+        taperPower: new ConstantProperty(1.0),
+        color: new ConstantProperty(color.withAlpha(0.95))
+      })
+      polyline.depthFailMaterial = new PolylineGlowMaterialProperty({
+        glowPower: new ConstantProperty(0.2),
+        taperPower: new ConstantProperty(1.0),
+        color: new ConstantProperty(color.withAlpha(0.7))
+      })
+    }
+  }
+
   /**
    * Toggle route arc visibility (overview = visible, venue = hidden)
    */
@@ -178,6 +217,13 @@ export class RouteManager {
     }
   }
 
+  /**
+   * Great-circle distance (metres) of each segment, in tour order
+   */
+  getSegmentDistances(): number[] {
+    return this.routeEntities.map(entity => entity.properties?.distanceMeters?.getValue() ?? 0)
+  }
+
   /**
    * Gets all route entities
    */
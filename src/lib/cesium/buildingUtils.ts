@@ -111,22 +111,39 @@ export class BuildingManager {
     }
   }
 
+  /**
+   * Fetches the stop's building file, trying its id first and then each alias
+   * (files saved before a venue's id was corrected keep their old name)
+   */
+  private async fetchBuildingData(stop: Stop): Promise<GeoJSONFC> {
+    const candidates = [stop.id, ...(stop.aliases ?? [])]
+    let lastStatus = 0
+    for (const id of candidates) {
+      const response = await fetch(`/data/buildings/${id}.geojson`)
+      // Dev servers may answer a missing file with the SPA's index.html
+      const isHtml = response.headers.get('content-type')?.includes('text/html')
+      if (response.ok && !isHtml) {
+        if (DEBUG_BUILDINGS && id !== stop.id) {
+          console.log(`[Buildings] Using alias ${id} for ${stop.id}`)
+        }
+        return response.json()
+      }
+      lastStatus = isHtml ? 404 : response.status
+      if (lastStatus !== 404) break
+    }
+    throw new Error(`HTTP ${lastStatus} (tried ${candidates.join(', ')})`)
+  }
+
   private async loadBuildingsInternal(
     stop: Stop,
     isStillRelevant?: () => boolean
   ): Promise<void> {
     const stopId = stop.id
-    const buildingUrl = `/data/buildings/${stopId}.geojson`
     const ellipsoid = this.viewer.scene.globe.ellipsoid
 
     try {
       await ensureTexturesReady()
-      const response = await fetch(buildingUrl)
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}`)
-      }
-
-      const data: GeoJSONFC = await response.json()
+      const data = await this.fetchBuildingData(stop)
       const features = Array.isArray(data.features) ? data.features : []
 
       const entities: Entity[] = []
@@ -7,14 +7,18 @@ import {
   ScreenSpaceEventHandler,
   ScreenSpaceEventType,
   defined,
-  ConstantProperty
+  ConstantProperty,
+  Color
 } from 'cesium'
 import type { Stop } from '../data/types'
+import { PACING_COLORS, type PacingHealth } from '../finance/pacing'
+import { RADIUS_COLORS, type RadiusCircle } from '../routing/radiusClauses'
 
 /**
- * Creates a high-resolution, premium marker icon for venue locations
+ * Creates a high-resolution, premium marker icon for venue locations.
+ * With a pacing health, unselected markers get a ring in its colour.
  */
-export function createMarkerCanvas(isSelected = false): HTMLCanvasElement {
+export function createMarkerCanvas(isSelected = false, health: PacingHealth | null = null): HTMLCanvasElement {
   const canvas = document.createElement('canvas')
   // Higher resolution for crisp rendering
   const size = isSelected ? 32 : 28
@@ -88,11 +92,11 @@ export function createMarkerCanvas(isSelected = false): HTMLCanvasElement {
     ctx.arc(center, center, radius, 0, 2 * Math.PI)
     ctx.fill()
     
-    // Border
-    ctx.strokeStyle = 'rgba(26, 31, 46, 0.2)'
-    ctx.lineWidth = 1
+    // Border (pacing ring when sales are tracked)
+    ctx.strokeStyle = health ? PACING_COLORS[health] : 'rgba(26, 31, 46, 0.2)'
+    ctx.lineWidth = health ? 3 : 1
     ctx.beginPath()
-    ctx.arc(center, center, radius, 0, 2 * Math.PI)
+    ctx.arc(center, center, health ? radius - 1.5 : radius, 0, 2 * Math.PI)
     ctx.stroke()
     
     // Inner circle
@@ -115,9 +119,9 @@ export function createMarkerCanvas(isSelected = false): HTMLCanvasElement {
 /**
  * Creates a Cesium Entity for a venue marker
  */
-export function createVenueMarker(stop: Stop, isSelected = false): Entity {
+export function createVenueMarker(stop: Stop, isSelected = false, health: PacingHealth | null = null): Entity {
   const position = Cartesian3.fromDegrees(stop.lng ?? 0, stop.lat ?? 0)
-  const canvas = createMarkerCanvas(isSelected)
+  const canvas = createMarkerCanvas(isSelected, health)
   
   return new Entity({
     id: stop.id,
@@ -154,6 +158,9 @@ export class VenueMarkerManager {
   private onMarkerClick: ((stopId: string) => void) | null = null
   private onMarkerHover: ((info: MarkerHoverInfo) => void) | null = null
   private hoveredEntity: Entity | null = null
+  private pacing: Map<string, PacingHealth> = new Map()
+  private radiusCircles: Map<string, Entity> = new Map()
+  private selectedStopId: string | null = null
 
   constructor(viewer: Viewer) {
     this.viewer = viewer
@@ -258,6 +265,7 @@ export class VenueMarkerManager {
    */
   updateMarkers(stops: Stop[], selectedStopId: string | null): void {
     console.log(`[Markers] Updating markers for ${stops.length} stops`)
+    this.selectedStopId = selectedStopId
     
     // Remove markers that are no longer needed
     const currentStopIds = new Set(stops.map(stop => stop.id))
@@ -277,11 +285,11 @@ export class VenueMarkerManager {
       if (existingMarker) {
         // Update existing marker if selection state changed
         if (existingMarker.billboard) {
-          existingMarker.billboard.image = new ConstantProperty(createMarkerCanvas(isSelected))
+          existingMarker.billboard.image = new ConstantProperty(createMarkerCanvas(isSelected, this.pacing.get(stop.id)))
         }
       } else {
         // Create new marker
-        const marker = createVenueMarker(stop, isSelected)
+        const marker = createVenueMarker(stop, isSelected, this.pacing.get(stop.id))
         this.viewer.entities.add(marker)
         this.markers.set(stop.id, marker)
       }
@@ -294,14 +302,64 @@ export class VenueMarkerManager {
    * Updates the selection state of markers
    */
   updateSelection(selectedStopId: string | null): void {
+    this.selectedStopId = selectedStopId
     for (const [stopId, entity] of this.markers) {
       const isSelected = stopId === selectedStopId
       if (entity.billboard) {
-        entity.billboard.image = new ConstantProperty(createMarkerCanvas(isSelected))
+        entity.billboard.image = new ConstantProperty(createMarkerCanvas(isSelected, this.pacing.get(stopId)))
       }
     }
   }
 
+  /**
+   * Colours markers by ticket sales pacing; stops left out get the plain marker
+   */
+  setPacing(pacing: { [stopId: string]: PacingHealth | null }): void {
+    this.pacing = new Map(
+      Object.entries(pacing).filter((entry): entry is [string, PacingHealth] => entry[1] != null)
+    )
+    this.updateSelection(this.selectedStopId)
+    this.viewer.scene.requestRender()
+  }
+
+  /**
+   * Draws each radius clause as a circle on the ground around its marker,
+   * red when another show breaches it; replaces any circles already drawn
+   */
+  setRadiusCircles(circles: RadiusCircle[]): void {
+    this.clearRadiusCircles()
+    for (const circle of circles) {
+      const color = Color.fromCssColorString(circle.breached ? RADIUS_COLORS.breached : RADIUS_COLORS.clear)
+      const entity = new Entity({
+        id: `radius-${circle.stopId}`,
+        position: Cartesian3.fromDegrees(circle.lng, circle.lat),
+        ellipse: {
+          semiMajorAxis: circle.radiusKm * 1000,
+          semiMinorAxis: circle.radiusKm * 1000,
+          height: 0, // Unclamped, so the outline draws
+          material: color.withAlpha(circle.breached ? 0.12 : 0.06),
+          outline: true,
+          outlineColor: color.withAlpha(0.8)
+        },
+        properties: {
+          stopId: circle.stopId,
+          isRadiusCircle: true
+        }
+      })
+      this.viewer.entities.add(entity)
+      this.radiusCircles.set(circle.stopId, entity)
+    }
+    console.log(`[Markers] Drew ${circles.length} radius clause circles`)
+    this.viewer.scene.requestRender()
+  }
+
+  private clearRadiusCircles(): void {
+    for (const entity of this.radiusCircles.values()) {
+      this.viewer.entities.remove(entity)
+    }
+    this.radiusCircles.clear()
+  }
+
   /**
    * Gets a marker by stop ID
    */
@@ -339,6 +397,6 @@ export class VenueMarkerManager {
       this.viewer.entities.remove(entity)
     }
     this.markers.clear()
-    
+    this.clearRadiusCircles()
   }
 }
\ No newline at end of file
@@ -1,28 +1,23 @@
-import type { Stop } from './types'
+import type { Scenario, Stop, StopDetails } from './types'
+import { STOPS_DATA_PATH, parseStopsPayload } from './schema'
+import { projectStop } from '../finance/projection'
+import { convert, type FxTable } from '../finance/fx'
+import { dealFigure, type DealRange } from '../finance/deal'
+import { formatRange, pointRange, rangeOf, type Range } from '../finance/range'
 
+/**
+ * Loads the stops payload, migrating older schema versions. Throws
+ * StopsSchemaError (with per-field issues) when the data doesn't validate.
+ */
 export async function loadStops(): Promise<Stop[]> {
   try {
-    const response = await fetch('/data/stops.v1.json')
+    const response = await fetch(`/${STOPS_DATA_PATH}`)
     
     if (!response.ok) {
       throw new Error(`Failed to load stops: ${response.status} ${response.statusText}`)
     }
     
-    const stops: Stop[] = await response.json()
-    
-    // Validate the data structure
-    if (!Array.isArray(stops)) {
-      throw new Error('Invalid stops data: expected array')
-    }
-    
-    // Basic validation of each stop
-    stops.forEach((stop, index) => {
-      if (!stop.id || !stop.city || !stop.venue || typeof stop.order !== 'number') {
-        throw new Error(`Invalid stop data at index ${index}: missing required fields`)
-      }
-    })
-    
-    return stops
+    return parseStopsPayload(await response.json()).stops
   } catch (error) {
     console.error('Error loading stops:', error)
     throw error
@@ -45,39 +40,90 @@ export function formatCapacity(capacityMin: number | null, capacityMax: number |
   return capacityMin?.toLocaleString() || capacityMax?.toLocaleString() || 'TBD'
 }
 
-export function extractStopDetails(stop: Stop, scenario: 'base' | 'upside'): {
-  capacity: string
-  ticketPrice: string
-  projectedGross: string
-  netGuarantee: string
-  notes: string
-  marketRationale: string
-} {
-  // Extract details from bullets array
-  const bullets = stop.bullets || []
-  
-  // Helper function to find bullet by prefix
-  const findBullet = (prefix: string): string => {
-    const bullet = bullets.find(b => b.toLowerCase().startsWith(prefix.toLowerCase()))
-    if (!bullet) return 'TBD'
-    
-    const colonIndex = bullet.indexOf(':')
-    if (colonIndex === -1) return bullet
-    
-    return bullet.substring(colonIndex + 1).trim()
-  }
-  
-  // For now, we'll use the same values for both scenarios
-  // In a real app, you might have scenario-specific data
-  
+/**
+ * Short place code for lists: "IL · US", or just "FR" where no state/province is known
+ */
+export function formatPlaceCode(stop: Stop): string {
+  const admin1 = stop.admin1Code?.split('-')[1]
+  return [admin1, stop.countryCode].filter(Boolean).join(' · ')
+}
+
+/**
+ * Full place line for the detail panel: "Illinois, United States · North America"
+ */
+export function formatPlaceName(stop: Stop): string | null {
+  const place = [stop.admin1Name, stop.countryName].filter(Boolean).join(', ')
+  return [place, stop.region].filter(Boolean).join(' · ') || null
+}
+
+/**
+ * Formats an amount in its own currency: "$2,100,000", "CA$850,000", "€95"
+ */
+export function formatMoney(value: number, currency: string): string {
+  // Cents only matter on ticket-sized amounts that aren't whole
+  const digits = Math.abs(value) < 1000 && !Number.isInteger(value) ? 2 : 0
+  return new Intl.NumberFormat(undefined, {
+    style: 'currency',
+    currency,
+    minimumFractionDigits: digits,
+    maximumFractionDigits: digits
+  }).format(value)
+}
+
+/**
+ * Short form for totals: "$2.1M", "€850K"
+ */
+export function formatMoneyCompact(value: number, currency: string): string {
+  return new Intl.NumberFormat(undefined, {
+    style: 'currency',
+    currency,
+    notation: 'compact',
+    maximumFractionDigits: 1
+  }).format(value)
+}
+
+/** Where to show converted amounts alongside the original ones */
+export interface ReportingCurrency {
+  currency: string
+  fx: FxTable
+}
+
+/**
+ * An amount (or low/high range) in its own currency, with the reporting-currency
+ * amount alongside when they differ and a rate is known: "CA$850,000 (≈ $616,000)"
+ */
+export function formatAmount(value: number | Range, currency: string, reporting?: ReportingCurrency): string {
+  const range = typeof value === 'number' ? pointRange(value) : value
+  const original = formatRange(range, amount => formatMoney(amount, currency))
+  if (!reporting || reporting.currency === currency) return original
+  const low = convert(range.low, currency, reporting.currency, reporting.fx)
+  const high = convert(range.high, currency, reporting.currency, reporting.fx)
+  if (low == null || high == null) return original
+  return `${original} (≈ ${formatRange({ low, high }, amount => formatMoney(amount, reporting.currency))})`
+}
+
+/**
+ * Display strings for a stop under one scenario; unknown figures read "TBD".
+ * A worked deal (see src/lib/finance/deal.ts) supplies gross and net/guarantee
+ * in place of the sheet's figures, as a range across the capacity range.
+ */
+export function getStopDetails(
+  stop: Stop,
+  scenario: Scenario,
+  deal: DealRange | null,
+  reporting?: ReportingCurrency
+): StopDetails {
+  const financials = projectStop(stop, scenario)
+  const money = (value: number | Range | null) => (value == null ? 'TBD' : formatAmount(value, financials.currency, reporting))
+  const { ticketPriceMin: min, ticketPriceMax: max } = financials
+  const ticketPrice = min == null && max == null ? null : rangeOf(min ?? max!, max ?? min!)
+
   return {
     capacity: formatCapacity(stop.capacityMin, stop.capacityMax),
-    ticketPrice: findBullet('Ticket Price'),
-    projectedGross: findBullet('Gross Revenue'),
-    netGuarantee: findBullet('Net/Guarantee'),
-    notes: findBullet('Notes'),
-    marketRationale: scenario === 'upside' 
-      ? 'Strong market demand, premium positioning'
-      : 'Conservative estimates based on historical data'
+    ticketPrice: money(ticketPrice),
+    projectedGross: money(deal ? dealFigure(deal, d => d.grossBoxOffice) : financials.projectedGross),
+    netGuarantee: money(deal ? dealFigure(deal, d => d.artistPayout) : financials.netGuarantee),
+    notes: stop.notes ?? 'TBD',
+    marketRationale: financials.rationale ?? 'TBD'
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,177 @@
+import type { Scenario, ScenarioStopOverride } from './types'
+import type { SchemaIssue } from './schema'
+
+/**
+ * Scenario definitions (public/data/scenarios.json). Each scenario starts from
+ * the base or upside figures in stops.json and scales or replaces them; see
+ * src/lib/finance/projection.ts.
+ */
+
+/** Scenarios file location, relative to the site root */
+export const SCENARIOS_DATA_PATH = 'data/scenarios.json'
+
+/** Used when scenarios.json isn't published: the sheet's own two figure sets */
+export const DEFAULT_SCENARIOS: Scenario[] = [
+  {
+    id: 'base',
+    name: 'Base',
+    description: 'Conservative market estimates',
+    basis: 'base',
+    multipliers: {},
+    stops: {}
+  },
+  {
+    id: 'upside',
+    name: 'Upside',
+    description: 'Optimistic market conditions',
+    basis: 'upside',
+    multipliers: {},
+    stops: {}
+  }
+]
+
+export class ScenariosSchemaError extends Error {
+  issues: SchemaIssue[]
+
+  constructor(message: string, issues: SchemaIssue[]) {
+    super(message)
+    this.name = 'ScenariosSchemaError'
+    this.issues = issues
+  }
+}
+
+/**
+ * Ids of scenarios saved in the browser start with this, which ids in
+ * scenarios.json can't, so a scenario published later never shadows a saved one
+ */
+export const SAVED_SCENARIO_PREFIX = 'saved:'
+
+const MULTIPLIER_FIELDS = ['attendance', 'price'] as const
+const MONEY_FIELDS = ['ticketPriceMin', 'ticketPriceMax', 'projectedGross', 'netGuarantee'] as const
+
+function checkOverride(override: ScenarioStopOverride, path: string, issues: SchemaIssue[]) {
+  for (const field of [...MULTIPLIER_FIELDS, ...MONEY_FIELDS]) {
+    const value = override[field]
+    if (value !== undefined && value !== null && (typeof value !== 'number' || !Number.isFinite(value) || value < 0)) {
+      issues.push({ path: `${path}.${field}`, message: `expected a number of 0 or more, got ${JSON.stringify(value)}` })
+    }
+  }
+  if (override.sellThrough !== undefined && override.sellThrough !== null
+    && (typeof override.sellThrough !== 'number' || !(override.sellThrough >= 0 && override.sellThrough <= 1))) {
+    issues.push({ path: `${path}.sellThrough`, message: `expected 0 to 1, got ${JSON.stringify(override.sellThrough)}` })
+  }
+  if (override.rationale !== undefined && override.rationale !== null && typeof override.rationale !== 'string') {
+    issues.push({ path: `${path}.rationale`, message: `expected a string, got ${JSON.stringify(override.rationale)}` })
+  }
+}
+
+/**
+ * Validates scenarios.json (or, with `saved`, the scenarios saved in the browser),
+ * filling optional `multipliers` and `stops`. Collects every problem rather than
+ * stopping at the first.
+ */
+export function validateScenarios(payload: unknown, { saved = false } = {}): Scenario[] {
+  const issues: SchemaIssue[] = []
+  const list = (payload as { scenarios?: unknown } | null)?.scenarios
+  if (!Array.isArray(list) || list.length === 0) {
+    throw new ScenariosSchemaError('Invalid scenarios data', [
+      { path: 'scenarios', message: `expected a non-empty array, got ${JSON.stringify(list)}` }
+    ])
+  }
+
+  const seenIds = new Set<string>()
+  const scenarios = list.map((raw, index): Scenario => {
+    const base = `scenarios[${index}]`
+    const scenario = (raw ?? {}) as Partial<Scenario>
+    const prefix = saved ? SAVED_SCENARIO_PREFIX : ''
+    if (typeof scenario.id !== 'string' || !scenario.id.startsWith(prefix) || !/^[a-z0-9-]+$/.test(scenario.id.slice(prefix.length))) {
+      issues.push({
+        path: `${base}.id`,
+        message: `expected ${saved ? `"${SAVED_SCENARIO_PREFIX}" then ` : ''}lowercase letters, digits and dashes, got ${JSON.stringify(scenario.id)}`
+      })
+    } else if (seenIds.has(scenario.id)) {
+      issues.push({ path: `${base}.id`, message: `duplicates an earlier scenario "${scenario.id}"` })
+    } else {
+      seenIds.add(scenario.id)
+    }
+    if (typeof scenario.name !== 'string' || scenario.name.trim() === '') {
+      issues.push({ path: `${base}.name`, message: `expected a non-empty string, got ${JSON.stringify(scenario.name)}` })
+    }
+    if (scenario.basis !== 'base' && scenario.basis !== 'upside') {
+      issues.push({ path: `${base}.basis`, message: `expected one of base, upside, got ${JSON.stringify(scenario.basis)}` })
+    }
+    const multipliers = scenario.multipliers ?? {}
+    checkOverride(multipliers, `${base}.multipliers`, issues)
+    checkOverride({ sellThrough: scenario.sellThrough }, base, issues)
+    const stops = scenario.stops ?? {}
+    for (const [stopId, override] of Object.entries(stops)) {
+      checkOverride(override ?? {}, `${base}.stops.${stopId}`, issues)
+    }
+    return {
+      id: scenario.id!,
+      name: scenario.name!,
+      description: typeof scenario.description === 'string' ? scenario.description : '',
+      basis: scenario.basis!,
+      multipliers,
+      ...(scenario.sellThrough != null ? { sellThrough: scenario.sellThrough } : {}),
+      stops
+    }
+  })
+
+  if (issues.length > 0) {
+    throw new ScenariosSchemaError(
+      `Invalid scenarios data: ${issues.length} problem${issues.length === 1 ? '' : 's'} found`,
+      issues
+    )
+  }
+  return scenarios
+}
+
+/**
+ * Loads the scenario list, falling back to Base and Upside when none is published
+ */
+export async function loadScenarios(): Promise<Scenario[]> {
+  const response = await fetch(`/${SCENARIOS_DATA_PATH}`)
+  // Vite's dev server answers unknown paths with index.html rather than a 404
+  if (response.status === 404 || response.headers.get('content-type')?.includes('text/html')) {
+    console.warn(`[Scenarios] No ${SCENARIOS_DATA_PATH}; using Base and Upside`)
+    return DEFAULT_SCENARIOS
+  }
+  if (!response.ok) {
+    throw new Error(`Failed to load scenarios: ${response.status} ${response.statusText}`)
+  }
+  return validateScenarios(await response.json())
+}
+
+/** localStorage key for scenarios saved from the sensitivity panel */
+const SAVED_SCENARIOS_KEY = 'tour.savedScenarios'
+
+/**
+ * Scenarios saved in this browser; unreadable entries are dropped with a warning
+ */
+export function loadSavedScenarios(): Scenario[] {
+  try {
+    const raw = localStorage.getItem(SAVED_SCENARIOS_KEY)
+    if (!raw) return []
+    const list: unknown = JSON.parse(raw)
+    if (!Array.isArray(list) || list.length === 0) return []
+    // Scenarios saved before ids were prefixed
+    const prefixed = list.map(entry =>
+      entry && typeof entry.id === 'string' && !entry.id.startsWith(SAVED_SCENARIO_PREFIX)
+        ? { ...entry, id: `${SAVED_SCENARIO_PREFIX}${entry.id}` }
+        : entry
+    )
+    return validateScenarios({ scenarios: prefixed }, { saved: true })
+  } catch (error) {
+    console.warn('[Scenarios] Ignoring unreadable saved scenarios:', error)
+    return []
+  }
+}
+
+export function storeSavedScenarios(scenarios: Scenario[]): void {
+  try {
+    localStorage.setItem(SAVED_SCENARIOS_KEY, JSON.stringify(scenarios))
+  } catch (error) {
+    console.warn('[Scenarios] Could not save scenarios:', error)
+  }
+}
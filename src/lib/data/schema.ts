@@ -0,0 +1,302 @@
+import type { FinancialBasis, Stop, StopFinancials } from './types'
+
+/**
+ * Versioned schema for the stops payload. Shared by the app (loadStops) and the
+ * data scripts, so the file location, version and validation live in one place.
+ *
+ *   v1  legacy bare array of stops, before the envelope
+ *   v2  { schemaVersion, generatedAt, stops } envelope; every Stop field present
+ *   v3  typed per-scenario `financials` replace ticketPrice/grossRevenue and `bullets`
+ */
+
+export const STOPS_SCHEMA_VERSION = 3
+
+/** Currency assumed for figures that predate per-stop currencies */
+export const DEFAULT_CURRENCY = 'USD'
+
+/** Stops payload location, relative to the site root (and to public/ for scripts) */
+export const STOPS_DATA_PATH = 'data/stops.json'
+
+export interface StopsPayload {
+  schemaVersion: number
+  /** ISO timestamp of the generator run */
+  generatedAt: string
+  stops: Stop[]
+}
+
+export interface SchemaIssue {
+  /** Where the problem is, e.g. "stops[3].date" */
+  path: string
+  message: string
+}
+
+export class StopsSchemaError extends Error {
+  issues: SchemaIssue[]
+
+  constructor(message: string, issues: SchemaIssue[]) {
+    super(message)
+    this.name = 'StopsSchemaError'
+    this.issues = issues
+  }
+}
+
+type Migration = (payload: unknown) => unknown
+
+type Fields = Record<string, unknown>
+
+/** The value as a plain object, or null; anything else is left for the validator to report */
+const asFields = (value: unknown): Fields | null =>
+  value && typeof value === 'object' && !Array.isArray(value) ? (value as Fields) : null
+
+/**
+ * Migrations keyed by the version they upgrade from. Each returns the next version.
+ */
+const MIGRATIONS: { [fromVersion: number]: Migration } = {
+  1: payload => ({
+    schemaVersion: 2,
+    generatedAt: new Date(0).toISOString(),
+    stops: (Array.isArray(payload) ? payload : []).map(stop => {
+      const fields = asFields(stop)
+      if (!fields) return stop
+      const placed = fields.lat != null && fields.lng != null
+      return {
+        aliases: [],
+        leg: null,
+        countryName: null,
+        admin1Code: null,
+        admin1Name: null,
+        region: null,
+        geocodeSource: placed ? 'override' : null,
+        geocodeConfidence: placed ? 1 : null,
+        date: null,
+        doorsTime: null,
+        showTime: null,
+        timezone: null,
+        status: null,
+        ticketPriceMin: null,
+        ticketPriceMax: null,
+        grossRevenue: null,
+        notes: null,
+        bullets: [],
+        ...fields
+      }
+    })
+  }),
+  2: payload => {
+    const envelope = asFields(payload) ?? {}
+    return {
+      ...envelope,
+      schemaVersion: 3,
+      stops: !Array.isArray(envelope.stops) ? envelope.stops : envelope.stops.map(stop => {
+        const fields = asFields(stop)
+        if (!fields) return stop
+        const { ticketPriceMin, ticketPriceMax, grossRevenue, bullets, ...rest } = fields
+        // Typed loosely on purpose: bad figures carry through for the validator to report
+        const base = {
+          currency: DEFAULT_CURRENCY,
+          ticketPriceMin: ticketPriceMin ?? null,
+          ticketPriceMax: ticketPriceMax ?? null,
+          projectedGross: grossRevenue ?? null,
+          netGuarantee: null,
+          rationale: null
+        }
+        // v2 overrides kept their notes in a "Notes: ..." bullet; nothing else in them was typed
+        const notesBullet = Array.isArray(bullets)
+          ? bullets.find((line: unknown): line is string => typeof line === 'string' && /^notes:/i.test(line))
+          : undefined
+        const notes = rest.notes ?? (notesBullet ? notesBullet.slice('notes:'.length).trim() || null : null)
+        return {
+          ...rest,
+          notes,
+          financials: {
+            base,
+            upside: { ...base, ticketPriceMin: null, ticketPriceMax: null, projectedGross: null }
+          }
+        }
+      })
+    }
+  }
+}
+
+export function detectSchemaVersion(payload: unknown): number | null {
+  if (Array.isArray(payload)) return 1
+  if (payload && typeof payload === 'object') {
+    const version = (payload as { schemaVersion?: unknown }).schemaVersion
+    if (typeof version === 'number' && Number.isInteger(version)) return version
+  }
+  return null
+}
+
+/**
+ * Upgrades a payload of any known version to the current one
+ */
+export function migrateStopsPayload(payload: unknown): unknown {
+  let version = detectSchemaVersion(payload)
+  if (version === null) {
+    throw new StopsSchemaError('Unrecognised stops data: expected an array or a { schemaVersion } object', [])
+  }
+  if (version > STOPS_SCHEMA_VERSION) {
+    throw new StopsSchemaError(
+      `Stops data is schema v${version}, but this app understands up to v${STOPS_SCHEMA_VERSION}`,
+      []
+    )
+  }
+
+  let migrated: unknown = payload
+  while (version < STOPS_SCHEMA_VERSION) {
+    const migrate = MIGRATIONS[version]
+    if (!migrate) {
+      throw new StopsSchemaError(`No migration from stops schema v${version}`, [])
+    }
+    migrated = migrate(migrated)
+    version++
+  }
+  return migrated
+}
+
+// Field checks return an error message, or null when the value is valid
+
+type FieldCheck = (value: unknown) => string | null
+
+const describe = (value: unknown) => (value === undefined ? 'missing' : JSON.stringify(value))
+
+const string = (pattern?: RegExp, hint?: string): FieldCheck => value => {
+  if (typeof value !== 'string' || value.trim() === '') return `expected a non-empty string, got ${describe(value)}`
+  if (pattern && !pattern.test(value)) return `expected ${hint}, got ${describe(value)}`
+  return null
+}
+
+const number = (min = -Infinity, max = Infinity, integer = false): FieldCheck => value => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) return `expected a number, got ${describe(value)}`
+  if (integer && !Number.isInteger(value)) return `expected a whole number, got ${describe(value)}`
+  if (value < min || value > max) return `expected ${min} to ${max}, got ${value}`
+  return null
+}
+
+const oneOf = (...options: string[]): FieldCheck => value =>
+  typeof value === 'string' && options.includes(value) ? null : `expected one of ${options.join(', ')}, got ${describe(value)}`
+
+const stringArray: FieldCheck = value =>
+  Array.isArray(value) && value.every(item => typeof item === 'string') ? null : `expected an array of strings, got ${describe(value)}`
+
+const nullable = (check: FieldCheck): FieldCheck => value => {
+  if (value === null) return null
+  if (value === undefined) return 'missing (use null when unknown)'
+  return check(value)
+}
+
+const BASES: FinancialBasis[] = ['base', 'upside']
+
+const FINANCIAL_FIELDS: { [K in keyof StopFinancials]-?: FieldCheck } = {
+  currency: string(/^[A-Z]{3}$/, 'an ISO 4217 code like "USD"'),
+  ticketPriceMin: nullable(number(0)),
+  ticketPriceMax: nullable(number(0)),
+  projectedGross: nullable(number(0)),
+  netGuarantee: nullable(number(0)),
+  rationale: nullable(string())
+}
+
+/**
+ * Checks the per-basis figures, reporting the first bad field as "base.currency: ..."
+ */
+const financials: FieldCheck = value => {
+  if (!value || typeof value !== 'object') return `expected a { ${BASES.join(', ')} } object, got ${describe(value)}`
+  for (const basis of BASES) {
+    const block = (value as Record<string, unknown>)[basis]
+    if (!block || typeof block !== 'object') return `${basis}: expected an object, got ${describe(block)}`
+    for (const [field, check] of Object.entries(FINANCIAL_FIELDS)) {
+      const message = check((block as Record<string, unknown>)[field])
+      if (message) return `${basis}.${field}: ${message}`
+    }
+    const { ticketPriceMin, ticketPriceMax } = block as StopFinancials
+    if (ticketPriceMin != null && ticketPriceMax != null && ticketPriceMin > ticketPriceMax) {
+      return `${basis}.ticketPriceMin: is greater than ticketPriceMax (${ticketPriceMax})`
+    }
+  }
+  return null
+}
+
+const STOP_FIELDS: { [K in keyof Stop]-?: FieldCheck } = {
+  id: string(/^[a-z0-9-]+$/, 'lowercase letters, digits and dashes'),
+  aliases: stringArray,
+  order: number(1, Infinity, true),
+  leg: nullable(string()),
+  city: string(),
+  countryCode: nullable(string(/^[A-Z]{2}$/, 'an ISO 3166-1 alpha-2 code')),
+  countryName: nullable(string()),
+  admin1Code: nullable(string(/^[A-Z]{2}-[A-Z0-9]{1,3}$/, 'an ISO 3166-2 code like "US-IL"')),
+  admin1Name: nullable(string()),
+  region: nullable(string()),
+  venue: string(),
+  capacityMin: nullable(number(0)),
+  capacityMax: nullable(number(0)),
+  lat: nullable(number(-90, 90)),
+  lng: nullable(number(-180, 180)),
+  geocodeSource: nullable(oneOf('override', 'arena', 'city')),
+  geocodeConfidence: nullable(number(0, 1)),
+  date: nullable(string(/^\d{4}-\d{2}-\d{2}$/, 'YYYY-MM-DD')),
+  doorsTime: nullable(string(/^\d{2}:\d{2}$/, 'HH:mm')),
+  showTime: nullable(string(/^\d{2}:\d{2}$/, 'HH:mm')),
+  timezone: nullable(string(/^[A-Za-z_]+(\/[A-Za-z0-9_+-]+)*$/, 'an IANA timezone like "America/Chicago"')),
+  status: nullable(oneOf('confirmed', 'hold', 'offer', 'cancelled')),
+  notes: nullable(string()),
+  financials
+}
+
+/**
+ * Validates a current-version payload, collecting every problem rather than stopping at the first
+ */
+export function validateStopsPayload(payload: unknown): StopsPayload {
+  const issues: SchemaIssue[] = []
+  const envelope = (payload ?? {}) as Partial<StopsPayload>
+
+  if (envelope.schemaVersion !== STOPS_SCHEMA_VERSION) {
+    issues.push({ path: 'schemaVersion', message: `expected ${STOPS_SCHEMA_VERSION}, got ${describe(envelope.schemaVersion)}` })
+  }
+  if (typeof envelope.generatedAt !== 'string' || Number.isNaN(Date.parse(envelope.generatedAt))) {
+    issues.push({ path: 'generatedAt', message: `expected an ISO timestamp, got ${describe(envelope.generatedAt)}` })
+  }
+  if (!Array.isArray(envelope.stops)) {
+    issues.push({ path: 'stops', message: `expected an array, got ${describe(envelope.stops)}` })
+    throw new StopsSchemaError('Invalid stops data', issues)
+  }
+
+  const seenIds = new Map<string, number>()
+  envelope.stops.forEach((stop, index) => {
+    const base = `stops[${index}]`
+    if (!stop || typeof stop !== 'object') {
+      issues.push({ path: base, message: `expected an object, got ${describe(stop)}` })
+      return
+    }
+    for (const [field, check] of Object.entries(STOP_FIELDS) as [keyof Stop, FieldCheck][]) {
+      const message = check(stop[field])
+      if (message) issues.push({ path: `${base}.${field}`, message })
+    }
+    if (stop.capacityMin != null && stop.capacityMax != null && stop.capacityMin > stop.capacityMax) {
+      issues.push({ path: `${base}.capacityMin`, message: `is greater than capacityMax (${stop.capacityMax})` })
+    }
+    if (typeof stop.id === 'string') {
+      const first = seenIds.get(stop.id)
+      if (first !== undefined) {
+        issues.push({ path: `${base}.id`, message: `duplicates stops[${first}].id "${stop.id}"` })
+      } else {
+        seenIds.set(stop.id, index)
+      }
+    }
+  })
+
+  if (issues.length > 0) {
+    throw new StopsSchemaError(
+      `Invalid stops data: ${issues.length} problem${issues.length === 1 ? '' : 's'} found`,
+      issues
+    )
+  }
+  return envelope as StopsPayload
+}
+
+/**
+ * Migrates a payload of any supported version and validates the result
+ */
+export function parseStopsPayload(payload: unknown): StopsPayload {
+  return validateStopsPayload(migrateStopsPayload(payload))
+}
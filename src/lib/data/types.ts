@@ -1,17 +1,94 @@
 export interface Stop {
+  /** Stable id from data/stop-ids.json; also names per-stop assets like buildings */
   id: string
+  /** Earlier ids for the same venue, tried when an asset isn't found under `id` */
+  aliases: string[]
   order: number
+  /** Tour leg, taken from the source spreadsheet sheet (e.g. "US & CAN", "EU") */
+  leg: string | null
+  /** City name without any country suffix, e.g. "Chicago" */
   city: string
-  countryCode: string
+  /** ISO 3166-1 alpha-2, e.g. "US" */
+  countryCode: string | null
+  countryName: string | null
+  /** ISO 3166-2 state/province, e.g. "US-IL" */
+  admin1Code: string | null
+  admin1Name: string | null
+  /** Business region the stop is booked under, e.g. "North America", "Europe" */
+  region: string | null
   venue: string
   capacityMin: number | null
   capacityMax: number | null
   lat: number | null
   lng: number | null
-  bullets: string[]
+  /** Where lat/lng came from: a manual override, or a gazetteer arena or city match */
+  geocodeSource: GeocodeSource | null
+  /** 0-1 match confidence (1 for overrides); city matches are city centres, not the venue */
+  geocodeConfidence: number | null
+  /** Show date as YYYY-MM-DD in the venue's local calendar */
+  date: string | null
+  /** Local wall-clock times as HH:mm */
+  doorsTime: string | null
+  showTime: string | null
+  /** IANA timezone of the venue, e.g. "America/Chicago" */
+  timezone: string | null
+  status: StopStatus | null
+  notes: string | null
+  /** Projected figures from the sheet; scenarios start from one of these */
+  financials: { [B in FinancialBasis]: StopFinancials }
 }
 
-export type Scenario = 'base' | 'upside'
+/**
+ * Money figures for one stop under one scenario, all in `currency`.
+ * Null means not yet known (shown as TBD).
+ */
+export interface StopFinancials {
+  /** ISO 4217 code, e.g. "USD", "CAD" */
+  currency: string
+  ticketPriceMin: number | null
+  ticketPriceMax: number | null
+  projectedGross: number | null
+  netGuarantee: number | null
+  /** Why the figures look the way they do for this market */
+  rationale: string | null
+}
+
+export type StopStatus = 'confirmed' | 'hold' | 'offer' | 'cancelled'
+
+export type GeocodeSource = 'override' | 'arena' | 'city'
+
+/** The sets of figures the generator reads for every stop */
+export type FinancialBasis = 'base' | 'upside'
+
+/** Scales a scenario's figures; 1 leaves them unchanged */
+export interface ScenarioMultipliers {
+  /** Scales projected gross (more or fewer tickets sold at the same prices) */
+  attendance?: number
+  /** Scales ticket prices and projected gross */
+  price?: number
+}
+
+/** Per-stop changes: multipliers replace the scenario's, figures replace projected ones */
+export interface ScenarioStopOverride extends ScenarioMultipliers, Partial<Omit<StopFinancials, 'currency'>> {
+  /** Replaces the scenario's sell-through for this stop */
+  sellThrough?: number
+}
+
+/**
+ * A what-if case from public/data/scenarios.json, e.g. downside, sold-out or a promoter offer
+ */
+export interface Scenario {
+  id: string
+  name: string
+  description: string
+  /** Which of the sheet's figure sets the scenario starts from */
+  basis: FinancialBasis
+  multipliers: ScenarioMultipliers
+  /** Fraction of capacity sold (0-1), replacing the deal terms' sell-through */
+  sellThrough?: number
+  /** Keyed by stop id (or one of its aliases) */
+  stops: { [stopId: string]: ScenarioStopOverride }
+}
 
 export interface StopDetails {
   capacity: string
@@ -25,7 +102,7 @@ export interface StopDetails {
 export interface AppState {
   stops: Stop[]
   selectedStopId: string | null
-  scenario: Scenario
+  scenarioId: string
   loading: boolean
   error: string | null
 }
\ No newline at end of file
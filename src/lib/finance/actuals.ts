@@ -0,0 +1,294 @@
+import type { Scenario, Stop } from '../data/types'
+import type { SchemaIssue } from '../data/schema'
+import { computeDealRange, dealFigure, type DealBook } from './deal'
+import { EXPENSE_CATEGORIES, expensesFor, type ExpenseBook, type StopExpenses } from './expenses'
+import { convert, type FxTable } from './fx'
+import { projectStop } from './projection'
+import { addRanges, pointRange, type Range } from './range'
+
+/**
+ * What actually happened at a stop, for comparing against the projections.
+ * Actuals come from public/data/actuals.json (the settlement import) and from
+ * figures entered in the app, which are kept in localStorage and win per stop.
+ * Amounts are in the stop's own currency.
+ *
+ * A stop counts as settled once its settled net is known. Variance is measured
+ * against the projected range: an actual inside the range has no variance,
+ * otherwise it's the distance to the nearer end.
+ */
+
+export const ACTUALS_DATA_PATH = 'data/actuals.json'
+
+export interface StopActuals {
+  /** Tickets sold (paid attendance) */
+  attendance: number | null
+  grossBoxOffice: number | null
+  /** Only the categories that were settled */
+  expenses: Partial<StopExpenses>
+  /** What the artist was paid at settlement, after any withholding (projected as the deal's artist net) */
+  settledNet: number | null
+  /** YYYY-MM-DD */
+  settledOn: string | null
+}
+
+export interface ActualsBook {
+  /** Keyed by stop id (or one of its aliases) */
+  stops: { [stopId: string]: StopActuals }
+}
+
+export const EMPTY_ACTUALS: ActualsBook = { stops: {} }
+
+export class ActualsSchemaError extends Error {
+  issues: SchemaIssue[]
+
+  constructor(message: string, issues: SchemaIssue[]) {
+    super(message)
+    this.name = 'ActualsSchemaError'
+    this.issues = issues
+  }
+}
+
+function checkAmount(value: unknown, path: string, issues: SchemaIssue[]) {
+  if (value !== null && (typeof value !== 'number' || !Number.isFinite(value) || value < 0)) {
+    issues.push({ path, message: `expected a number of 0 or more or null, got ${JSON.stringify(value)}` })
+  }
+}
+
+/**
+ * Validates an actuals file or import, filling omitted fields with null.
+ * Collects every problem rather than stopping at the first.
+ */
+export function validateActuals(payload: unknown): ActualsBook {
+  const issues: SchemaIssue[] = []
+  const raw = (payload as { stops?: unknown } | null)?.stops
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new ActualsSchemaError('Invalid actuals data', [
+      { path: 'stops', message: `expected an object keyed by stop id, got ${JSON.stringify(raw)}` }
+    ])
+  }
+
+  const stops: ActualsBook['stops'] = {}
+  for (const [stopId, value] of Object.entries(raw as Record<string, unknown>)) {
+    const base = `stops.${stopId}`
+    if (value !== null && (typeof value !== 'object' || Array.isArray(value))) {
+      issues.push({ path: base, message: `expected an object or null, got ${JSON.stringify(value)}` })
+      continue
+    }
+    const entry = (value ?? {}) as Partial<StopActuals>
+    const actuals: StopActuals = {
+      attendance: entry.attendance ?? null,
+      grossBoxOffice: entry.grossBoxOffice ?? null,
+      expenses: entry.expenses ?? {},
+      settledNet: entry.settledNet ?? null,
+      settledOn: entry.settledOn ?? null
+    }
+    if (actuals.attendance !== null && !Number.isInteger(actuals.attendance)) {
+      issues.push({ path: `${base}.attendance`, message: `expected a whole number or null, got ${JSON.stringify(actuals.attendance)}` })
+    } else {
+      checkAmount(actuals.attendance, `${base}.attendance`, issues)
+    }
+    checkAmount(actuals.grossBoxOffice, `${base}.grossBoxOffice`, issues)
+    checkAmount(actuals.settledNet, `${base}.settledNet`, issues)
+    if (typeof actuals.expenses !== 'object' || Array.isArray(actuals.expenses)) {
+      issues.push({ path: `${base}.expenses`, message: `expected an object keyed by category, got ${JSON.stringify(actuals.expenses)}` })
+      actuals.expenses = {}
+    }
+    for (const [key, amount] of Object.entries(actuals.expenses)) {
+      if (!EXPENSE_CATEGORIES.some(category => category.key === key)) {
+        issues.push({ path: `${base}.expenses.${key}`, message: `unknown category; expected one of ${EXPENSE_CATEGORIES.map(c => c.key).join(', ')}` })
+      } else {
+        checkAmount(amount, `${base}.expenses.${key}`, issues)
+      }
+    }
+    if (actuals.settledOn !== null && (typeof actuals.settledOn !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(actuals.settledOn))) {
+      issues.push({ path: `${base}.settledOn`, message: `expected YYYY-MM-DD or null, got ${JSON.stringify(actuals.settledOn)}` })
+    }
+    stops[stopId] = actuals
+  }
+
+  if (issues.length > 0) {
+    throw new ActualsSchemaError(
+      `Invalid actuals data: ${issues.length} problem${issues.length === 1 ? '' : 's'} found`,
+      issues
+    )
+  }
+  return { stops }
+}
+
+/**
+ * Loads the imported actuals, or none when the file isn't published
+ */
+export async function loadActuals(): Promise<ActualsBook> {
+  const response = await fetch(`/${ACTUALS_DATA_PATH}`)
+  // Vite's dev server answers unknown paths with index.html rather than a 404
+  if (response.status === 404 || response.headers.get('content-type')?.includes('text/html')) {
+    console.warn(`[Actuals] No ${ACTUALS_DATA_PATH}; no shows settled yet`)
+    return EMPTY_ACTUALS
+  }
+  if (!response.ok) {
+    throw new Error(`Failed to load actuals: ${response.status} ${response.statusText}`)
+  }
+  return validateActuals(await response.json())
+}
+
+/** localStorage key for actuals entered or imported in the app */
+const ENTERED_ACTUALS_KEY = 'tour.actuals'
+
+/**
+ * Actuals entered in this browser; an unreadable entry is dropped with a warning
+ */
+export function loadEnteredActuals(): ActualsBook {
+  try {
+    const raw = localStorage.getItem(ENTERED_ACTUALS_KEY)
+    return raw ? validateActuals(JSON.parse(raw)) : EMPTY_ACTUALS
+  } catch (error) {
+    console.warn('[Actuals] Ignoring unreadable entered actuals:', error)
+    return EMPTY_ACTUALS
+  }
+}
+
+export function storeEnteredActuals(book: ActualsBook): void {
+  try {
+    localStorage.setItem(ENTERED_ACTUALS_KEY, JSON.stringify(book))
+  } catch (error) {
+    console.warn('[Actuals] Could not save actuals:', error)
+  }
+}
+
+/**
+ * Entered actuals over imported ones, stop by stop
+ */
+export function mergeActuals(imported: ActualsBook, entered: ActualsBook): ActualsBook {
+  return { stops: { ...imported.stops, ...entered.stops } }
+}
+
+export function actualsFor(stop: Stop, book: ActualsBook): StopActuals | null {
+  return [stop.id, ...stop.aliases].map(id => book.stops[id]).find(Boolean) ?? null
+}
+
+export function isSettled(actuals: StopActuals | null): boolean {
+  return actuals?.settledNet != null
+}
+
+/**
+ * How far an actual figure landed outside the projected range (0 inside it)
+ */
+export function varianceFrom(projected: Range, actual: number): number {
+  if (actual < projected.low) return actual - projected.low
+  if (actual > projected.high) return actual - projected.high
+  return 0
+}
+
+export interface VarianceLine {
+  label: string
+  projected: Range | null
+  actual: number | null
+  /** Null until both sides are known */
+  variance: number | null
+  /** Whether the figure is a ticket count rather than money */
+  isCount?: boolean
+}
+
+/**
+ * Line-by-line comparison of a stop's actuals with the scenario's projection
+ */
+export function stopVariance(
+  stop: Stop,
+  scenario: Scenario,
+  deals: DealBook,
+  expenses: ExpenseBook,
+  actuals: StopActuals
+): VarianceLine[] {
+  const deal = computeDealRange(stop, scenario, deals)
+  const projected = projectStop(stop, scenario)
+  const costs = expensesFor(stop, expenses)
+  const line = (label: string, range: Range | null, actual: number | null, isCount = false): VarianceLine => ({
+    label,
+    projected: range,
+    actual,
+    variance: range && actual != null ? varianceFrom(range, actual) : null,
+    ...(isCount ? { isCount } : {})
+  })
+  const orPoint = (value: number | null) => (value == null ? null : pointRange(value))
+
+  return [
+    line('Attendance', deal ? dealFigure(deal, d => d.ticketsSold) : null, actuals.attendance, true),
+    line('Gross box office', deal ? dealFigure(deal, d => d.grossBoxOffice) : orPoint(projected.projectedGross), actuals.grossBoxOffice),
+    ...EXPENSE_CATEGORIES.map(({ key, label }) => line(label, pointRange(costs[key]), actuals.expenses[key] ?? null)),
+    line('Settled net (after withholding)', deal ? dealFigure(deal, d => d.artistNet) : orPoint(projected.netGuarantee), actuals.settledNet)
+  ]
+}
+
+export interface ActualsToDate {
+  settledStops: number
+  /**
+   * Projected and actual figures cover only the settled stops where both sides
+   * are known (gross may be missing for a settled stop), so each pair compares
+   * like for like
+   */
+  projectedGross: Range | null
+  actualGross: number | null
+  projectedNet: Range | null
+  actualNet: number | null
+  /** Currencies left out because the FX table has no rate */
+  unconverted: string[]
+}
+
+/**
+ * Projected against actual gross and settled net over the stops settled so far,
+ * in the reporting currency
+ */
+export function actualsToDate(
+  stops: Stop[],
+  scenario: Scenario,
+  deals: DealBook,
+  book: ActualsBook,
+  fx: FxTable,
+  currency: string
+): ActualsToDate {
+  const totals: ActualsToDate = {
+    settledStops: 0,
+    projectedGross: null,
+    actualGross: null,
+    projectedNet: null,
+    actualNet: null,
+    unconverted: []
+  }
+  const unconverted = new Set<string>()
+  const toReporting = (amount: number, from: string) => {
+    const converted = convert(amount, from, currency, fx)
+    if (converted == null) unconverted.add(from)
+    return converted
+  }
+  const addRange = (total: Range | null, range: Range | null, from: string) => {
+    if (!range) return total
+    const low = toReporting(range.low, from)
+    const high = toReporting(range.high, from)
+    return low == null || high == null ? total : addRanges(total ?? pointRange(0), { low, high })
+  }
+  const addAmount = (total: number | null, amount: number | null, from: string) => {
+    const converted = amount == null ? null : toReporting(amount, from)
+    return converted == null ? total : (total ?? 0) + converted
+  }
+
+  for (const stop of stops) {
+    const actuals = actualsFor(stop, book)
+    if (!actuals || !isSettled(actuals)) continue
+    totals.settledStops++
+    const deal = computeDealRange(stop, scenario, deals)
+    const projected = projectStop(stop, scenario)
+    const gross = deal ? dealFigure(deal, d => d.grossBoxOffice) : projected.projectedGross != null ? pointRange(projected.projectedGross) : null
+    const net = deal ? dealFigure(deal, d => d.artistNet) : projected.netGuarantee != null ? pointRange(projected.netGuarantee) : null
+    // Only pairs with both sides known, so the totals cover the same stops
+    if (gross && actuals.grossBoxOffice != null) {
+      totals.projectedGross = addRange(totals.projectedGross, gross, projected.currency)
+      totals.actualGross = addAmount(totals.actualGross, actuals.grossBoxOffice, projected.currency)
+    }
+    if (net) {
+      totals.projectedNet = addRange(totals.projectedNet, net, projected.currency)
+      totals.actualNet = addAmount(totals.actualNet, actuals.settledNet, projected.currency)
+    }
+  }
+  totals.unconverted = [...unconverted]
+  return totals
+}
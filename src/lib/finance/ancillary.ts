@@ -0,0 +1,198 @@
+import type { Scenario, Stop } from '../data/types'
+import type { SchemaIssue } from '../data/schema'
+import { ticketsSoldAt, type DealBook } from './deal'
+import { convert, type FxTable } from './fx'
+import { projectStop } from './projection'
+import { addRanges, pointRange, rangeOf, type Range } from './range'
+
+/**
+ * Ancillary revenue from public/data/ancillary.json: per-head spend on merch,
+ * VIP packages and food & beverage, worked from the attendance the selected
+ * scenario projects (tickets sold, see deal.ts), at both ends of the capacity range.
+ *
+ *   merch    attendance x merchPerHead, less the venue's merchCommission
+ *   VIP      attendance x vipPerHead, all to the artist
+ *   F&B      attendance x fbPerHead, of which the artist gets fbShare
+ *   artist   merch after commission + VIP + the F&B share
+ *
+ * Amounts are in the stop's own currency. Ancillary revenue is reported next to
+ * the box office and isn't part of the P&L (expenses.ts).
+ */
+
+export const ANCILLARY_DATA_PATH = 'data/ancillary.json'
+
+export interface AncillaryTerms {
+  /** Average merch spend per attendee */
+  merchPerHead: number
+  /** Fraction of merch sales the venue keeps, 0-1 */
+  merchCommission: number
+  /** VIP package revenue per attendee (packages sold x price / attendance) */
+  vipPerHead: number
+  /** Average food & beverage spend per attendee */
+  fbPerHead: number
+  /** Fraction of F&B sales the artist gets, 0-1 */
+  fbShare: number
+}
+
+export interface AncillaryBook {
+  defaults: AncillaryTerms
+  /** Keyed by stop id (or one of its aliases) */
+  stops: { [stopId: string]: Partial<AncillaryTerms> }
+}
+
+export interface StopAncillary {
+  currency: string
+  terms: AncillaryTerms
+  attendance: Range
+  merchGross: Range
+  merchCommission: Range
+  vip: Range
+  fbGross: Range
+  fbShare: Range
+  /** What the artist takes from ancillaries */
+  artistRevenue: Range
+}
+
+export const DEFAULT_ANCILLARY_BOOK: AncillaryBook = {
+  defaults: { merchPerHead: 0, merchCommission: 0, vipPerHead: 0, fbPerHead: 0, fbShare: 0 },
+  stops: {}
+}
+
+export class AncillarySchemaError extends Error {
+  issues: SchemaIssue[]
+
+  constructor(message: string, issues: SchemaIssue[]) {
+    super(message)
+    this.name = 'AncillarySchemaError'
+    this.issues = issues
+  }
+}
+
+const FRACTION_FIELDS = ['merchCommission', 'fbShare'] as const
+const AMOUNT_FIELDS = ['merchPerHead', 'vipPerHead', 'fbPerHead'] as const
+
+function checkTerms(terms: Partial<AncillaryTerms>, path: string, required: boolean, issues: SchemaIssue[]) {
+  for (const field of [...FRACTION_FIELDS, ...AMOUNT_FIELDS]) {
+    const value = terms[field]
+    if (value === undefined) {
+      if (required) issues.push({ path: `${path}.${field}`, message: 'missing' })
+      continue
+    }
+    const max = (FRACTION_FIELDS as readonly string[]).includes(field) ? 1 : Infinity
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < 0 || value > max) {
+      issues.push({ path: `${path}.${field}`, message: `expected 0 to ${max}, got ${JSON.stringify(value)}` })
+    }
+  }
+}
+
+/**
+ * Validates ancillary.json, collecting every problem rather than stopping at the first
+ */
+export function validateAncillaryBook(payload: unknown): AncillaryBook {
+  const issues: SchemaIssue[] = []
+  const book = (payload ?? {}) as Partial<AncillaryBook>
+  if (!book.defaults || typeof book.defaults !== 'object') {
+    issues.push({ path: 'defaults', message: `expected an object, got ${JSON.stringify(book.defaults)}` })
+  } else {
+    checkTerms(book.defaults, 'defaults', true, issues)
+  }
+  for (const [stopId, terms] of Object.entries(book.stops ?? {})) {
+    checkTerms(terms ?? {}, `stops.${stopId}`, false, issues)
+  }
+
+  if (issues.length > 0) {
+    throw new AncillarySchemaError(
+      `Invalid ancillary data: ${issues.length} problem${issues.length === 1 ? '' : 's'} found`,
+      issues
+    )
+  }
+  return { defaults: book.defaults!, stops: book.stops ?? {} }
+}
+
+/**
+ * Loads the per-head assumptions, falling back to DEFAULT_ANCILLARY_BOOK (no ancillary revenue)
+ */
+export async function loadAncillary(): Promise<AncillaryBook> {
+  const response = await fetch(`/${ANCILLARY_DATA_PATH}`)
+  // Vite's dev server answers unknown paths with index.html rather than a 404
+  if (response.status === 404 || response.headers.get('content-type')?.includes('text/html')) {
+    console.warn(`[Ancillary] No ${ANCILLARY_DATA_PATH}; no ancillary revenue`)
+    return DEFAULT_ANCILLARY_BOOK
+  }
+  if (!response.ok) {
+    throw new Error(`Failed to load ancillary data: ${response.status} ${response.statusText}`)
+  }
+  return validateAncillaryBook(await response.json())
+}
+
+/**
+ * The stop's assumptions: its own entry (by id or alias) over the defaults
+ */
+export function ancillaryTermsFor(stop: Stop, book: AncillaryBook): AncillaryTerms {
+  const own = [stop.id, ...stop.aliases].map(id => book.stops[id]).find(Boolean) ?? {}
+  return { ...book.defaults, ...own }
+}
+
+/**
+ * A stop's ancillary revenue under a scenario; null until its capacity is known
+ */
+export function stopAncillary(stop: Stop, scenario: Scenario, deals: DealBook, book: AncillaryBook): StopAncillary | null {
+  const low = stop.capacityMin ?? stop.capacityMax
+  const high = stop.capacityMax ?? stop.capacityMin
+  if (low == null || high == null) return null
+
+  const terms = ancillaryTermsFor(stop, book)
+  const attendance = rangeOf(ticketsSoldAt(stop, scenario, deals, low), ticketsSoldAt(stop, scenario, deals, high))
+  const perHead = (amount: number) => rangeOf(attendance.low * amount, attendance.high * amount)
+  const merchGross = perHead(terms.merchPerHead)
+  const merchCommission = perHead(terms.merchPerHead * terms.merchCommission)
+  const vip = perHead(terms.vipPerHead)
+  const fbGross = perHead(terms.fbPerHead)
+  const fbShare = perHead(terms.fbPerHead * terms.fbShare)
+
+  return {
+    currency: projectStop(stop, scenario).currency,
+    terms,
+    attendance,
+    merchGross,
+    merchCommission,
+    vip,
+    fbGross,
+    fbShare,
+    artistRevenue: perHead(terms.merchPerHead * (1 - terms.merchCommission) + terms.vipPerHead + terms.fbPerHead * terms.fbShare)
+  }
+}
+
+export interface AncillaryTotals {
+  /** Null when no stop has a capacity yet */
+  artistRevenue: Range | null
+  /** Currencies left out because the FX table has no rate */
+  unconverted: string[]
+}
+
+/**
+ * Artist ancillary revenue across the tour, in the reporting currency
+ */
+export function ancillaryTotals(
+  stops: Stop[],
+  scenario: Scenario,
+  deals: DealBook,
+  book: AncillaryBook,
+  fx: FxTable,
+  currency: string
+): AncillaryTotals {
+  let artistRevenue: Range | null = null
+  const unconverted = new Set<string>()
+  for (const stop of stops) {
+    const ancillary = stopAncillary(stop, scenario, deals, book)
+    if (!ancillary) continue
+    const low = convert(ancillary.artistRevenue.low, ancillary.currency, currency, fx)
+    const high = convert(ancillary.artistRevenue.high, ancillary.currency, currency, fx)
+    if (low == null || high == null) {
+      if (ancillary.artistRevenue.high !== 0) unconverted.add(ancillary.currency)
+      continue
+    }
+    artistRevenue = addRanges(artistRevenue ?? pointRange(0), { low, high })
+  }
+  return { artistRevenue, unconverted: [...unconverted] }
+}
@@ -0,0 +1,153 @@
+import type { Scenario, Stop } from '../data/types'
+import { stopAncillary, type AncillaryBook } from './ancillary'
+import { computeDealRange, dealFigure, type AppliedTax, type DealBook } from './deal'
+import { stopProfitAndLoss, type ExpenseBook } from './expenses'
+import { convert, type FxTable } from './fx'
+import { projectStop } from './projection'
+import { formatRange, pointRange, rangeOf, type Range } from './range'
+import type { TourTotals } from './totals'
+
+/**
+ * Compare mode: the same figures under two scenarios and how far the second
+ * moves them from the first. Deltas of ranges are taken end to end (low from
+ * low, high from high), so a stop's capacity range carries through.
+ */
+
+export interface Delta {
+  /** to - from */
+  absolute: Range
+  /** absolute / from; null when `from` is zero at either end */
+  percent: Range | null
+}
+
+export function deltaOf(from: Range, to: Range): Delta {
+  const low = to.low - from.low
+  const high = to.high - from.high
+  return {
+    absolute: rangeOf(low, high),
+    percent: from.low !== 0 && from.high !== 0 ? rangeOf(low / from.low, high / from.high) : null
+  }
+}
+
+/**
+ * "+$120,000 (+4.5%)"; `format` gets the signed amount
+ */
+export function formatDelta(delta: Delta, format: (value: number) => string): string {
+  const signed = (text: string, value: number) => (value > 0 ? `+${text}` : text)
+  const absolute = formatRange(delta.absolute, value => signed(format(value), value))
+  if (!delta.percent) return absolute
+  const percent = formatRange(delta.percent, value => signed(`${Number((value * 100).toFixed(1))}%`, value))
+  return `${absolute} (${percent})`
+}
+
+export interface ComparisonLine {
+  label: string
+  from: Range | null
+  to: Range | null
+  /** Null unless both sides are known */
+  delta: Delta | null
+  /** Whether the figure is a ticket count rather than money */
+  isCount?: boolean
+}
+
+type StopFigures = { [label: string]: { value: Range | null; isCount?: boolean } }
+
+const totalOf = (taxes: AppliedTax[]) => taxes.reduce((sum, tax) => sum + tax.amount, 0)
+
+function stopFigures(
+  stop: Stop,
+  scenario: Scenario,
+  deals: DealBook,
+  expenses: ExpenseBook,
+  ancillary: AncillaryBook
+): StopFigures {
+  const deal = computeDealRange(stop, scenario, deals)
+  const projected = projectStop(stop, scenario)
+  const orPoint = (value: number | null) => (value == null ? null : pointRange(value))
+  const { ticketPriceMin: min, ticketPriceMax: max } = projected
+  const extras = stopAncillary(stop, scenario, deals, ancillary)
+
+  return {
+    Tickets: { value: deal ? dealFigure(deal, d => d.ticketsSold) : null, isCount: true },
+    'Ticket price': {
+      value: deal
+        ? dealFigure(deal, d => d.averagePrice)
+        : min == null && max == null ? null : rangeOf(min ?? max!, max ?? min!)
+    },
+    'Gross box office': { value: deal ? dealFigure(deal, d => d.grossBoxOffice) : orPoint(projected.projectedGross) },
+    'Taxes in price': { value: deal ? dealFigure(deal, d => d.taxes) : null },
+    'Ticketing & facility fees': { value: deal ? dealFigure(deal, d => d.fees) : null },
+    Levies: { value: deal ? dealFigure(deal, d => totalOf(d.levies)) : null },
+    'Net box office': { value: deal ? dealFigure(deal, d => d.netBoxOffice) : null },
+    'Artist payout': { value: deal ? dealFigure(deal, d => d.artistPayout) : orPoint(projected.netGuarantee) },
+    Withholding: { value: deal ? dealFigure(deal, d => totalOf(d.withholding)) : null },
+    'Artist net': { value: deal ? dealFigure(deal, d => d.artistNet) : null },
+    'Promoter result': { value: deal ? dealFigure(deal, d => d.promoterResult) : null },
+    'Ancillary revenue': { value: extras ? extras.artistRevenue : null },
+    Profit: { value: stopProfitAndLoss(stop, scenario, deals, expenses).profit }
+  }
+}
+
+/**
+ * Every stop metric under both scenarios, in the stop's currency
+ */
+export function compareStop(
+  stop: Stop,
+  from: Scenario,
+  to: Scenario,
+  deals: DealBook,
+  expenses: ExpenseBook,
+  ancillary: AncillaryBook
+): ComparisonLine[] {
+  const before = stopFigures(stop, from, deals, expenses, ancillary)
+  const after = stopFigures(stop, to, deals, expenses, ancillary)
+  return Object.entries(before).map(([label, { value, isCount }]) => {
+    const other = after[label].value
+    return {
+      label,
+      from: value,
+      to: other,
+      delta: value && other ? deltaOf(value, other) : null,
+      ...(isCount ? { isCount } : {})
+    }
+  })
+}
+
+/**
+ * How far the second scenario moves a stop's artist payout (the middle of the
+ * range), in the reporting currency; null when either side or the rate is unknown.
+ * Stops are sorted by its size in compare mode.
+ */
+export function stopPayoutDelta(
+  stop: Stop,
+  from: Scenario,
+  to: Scenario,
+  deals: DealBook,
+  fx: FxTable,
+  currency: string
+): number | null {
+  const payout = (scenario: Scenario) => {
+    const deal = computeDealRange(stop, scenario, deals)
+    if (deal) return (deal.low.artistPayout + deal.high.artistPayout) / 2
+    return projectStop(stop, scenario).netGuarantee
+  }
+  const before = payout(from)
+  const after = payout(to)
+  if (before == null || after == null) return null
+  return convert(after - before, projectStop(stop, from).currency, currency, fx)
+}
+
+export type TotalsDelta = { [K in 'grossBoxOffice' | 'netBoxOffice' | 'artistPayout' | 'profit']: Delta | null }
+
+/**
+ * Tour totals deltas; both sides must be in the same reporting currency
+ */
+export function compareTotals(from: TourTotals, to: TourTotals): TotalsDelta {
+  const delta = (a: Range | null, b: Range | null) => (a && b ? deltaOf(a, b) : null)
+  return {
+    grossBoxOffice: delta(from.grossBoxOffice, to.grossBoxOffice),
+    netBoxOffice: delta(from.netBoxOffice, to.netBoxOffice),
+    artistPayout: delta(from.artistPayout, to.artistPayout),
+    profit: delta(from.profit, to.profit)
+  }
+}
@@ -0,0 +1,307 @@
+import type { Scenario, Stop } from '../data/types'
+import type { SchemaIssue } from '../data/schema'
+import { findOverride, projectStop, scenarioMultipliers } from './projection'
+import { rangeOf, type Range } from './range'
+import { taxRulesFor, type TaxBasis, type TaxRule } from './taxRules'
+
+/**
+ * Deal model: works a stop's box office down from capacity to what the artist
+ * is paid. Terms come from public/data/deals.json (defaults plus per-stop terms);
+ * money is in the stop's own currency.
+ *
+ *   tickets        capacity x sell-through (x scenario attendance, at most capacity);
+ *                  a scenario's sell-through replaces the terms'
+ *                  worked at both ends of the capacity range, see computeDealRange
+ *   gross          tickets x tier prices (x scenario price)
+ *   net            gross - taxes included in the price - ticketing and facility fees
+ *                  - the country's gross and net levies (taxRules.ts)
+ *   versus         versus% of (net - promoter costs)
+ *   artist payout  the greater of the guarantee and the versus amount
+ *   artist net     artist payout - the country's withholding on it
+ */
+
+export const DEALS_DATA_PATH = 'data/deals.json'
+
+export interface PriceTier {
+  name: string
+  /** Fraction of tickets sold at this price; shares are normalized to sum to 1 */
+  share: number
+  price: number
+}
+
+export interface DealTerms {
+  /** Fraction of capacity sold, 0-1 */
+  sellThrough: number
+  /** Without tiers, every ticket sells at the middle of the stop's ticket price range */
+  priceTiers?: PriceTier[]
+  /** Per ticket, kept by the ticketing company */
+  ticketingFee: number
+  /** Per ticket, kept by the venue */
+  facilityFee: number
+  /** Sales tax / VAT included in the ticket price, as a fraction (0.2 = 20%) */
+  taxRate: number
+  /** Fixed show costs the promoter recoups before the versus split */
+  promoterCosts: number
+  /** Without one, the scenario's (else the base) Net/Guarantee figure is used */
+  guarantee?: number
+  /** Artist share of net after promoter costs, 0-1 */
+  versusPercent: number
+}
+
+export interface DealBook {
+  defaults: DealTerms
+  /** Keyed by stop id (or one of its aliases) */
+  stops: { [stopId: string]: Partial<DealTerms> }
+  /** Country and province rules from tax-rules.json; none when left out */
+  taxRules?: TaxRule[]
+}
+
+/** One tax rule worked against a deal */
+export interface AppliedTax {
+  id: string
+  name: string
+  basis: TaxBasis
+  rate: number
+  amount: number
+}
+
+export interface DealResult {
+  currency: string
+  capacity: number
+  ticketsSold: number
+  /** Average price actually paid across tiers */
+  averagePrice: number
+  grossBoxOffice: number
+  taxes: number
+  fees: number
+  /** Gross and net levies, already taken off the net box office */
+  levies: AppliedTax[]
+  netBoxOffice: number
+  promoterCosts: number
+  guarantee: number
+  versusPercent: number
+  versusAmount: number
+  artistPayout: number
+  /** Withheld from the artist payout */
+  withholding: AppliedTax[]
+  /** Artist payout after withholding */
+  artistNet: number
+  /** Which side of the deal pays out */
+  payoutBasis: 'guarantee' | 'versus'
+  /** Net box office left after promoter costs and the artist payout */
+  promoterResult: number
+}
+
+export const DEFAULT_DEAL_BOOK: DealBook = {
+  defaults: {
+    sellThrough: 0.87,
+    ticketingFee: 0,
+    facilityFee: 0,
+    taxRate: 0,
+    promoterCosts: 0,
+    versusPercent: 0.85
+  },
+  stops: {}
+}
+
+export class DealsSchemaError extends Error {
+  issues: SchemaIssue[]
+
+  constructor(message: string, issues: SchemaIssue[]) {
+    super(message)
+    this.name = 'DealsSchemaError'
+    this.issues = issues
+  }
+}
+
+const FRACTION_FIELDS = ['sellThrough', 'taxRate', 'versusPercent'] as const
+const AMOUNT_FIELDS = ['ticketingFee', 'facilityFee', 'promoterCosts', 'guarantee'] as const
+
+function checkTerms(terms: Partial<DealTerms>, path: string, required: boolean, issues: SchemaIssue[]) {
+  for (const field of [...FRACTION_FIELDS, ...AMOUNT_FIELDS]) {
+    const value = terms[field]
+    if (value === undefined) {
+      if (required && field !== 'guarantee') issues.push({ path: `${path}.${field}`, message: 'missing' })
+      continue
+    }
+    const max = (FRACTION_FIELDS as readonly string[]).includes(field) ? 1 : Infinity
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < 0 || value > max) {
+      issues.push({ path: `${path}.${field}`, message: `expected 0 to ${max}, got ${JSON.stringify(value)}` })
+    }
+  }
+  if (terms.priceTiers !== undefined) {
+    if (!Array.isArray(terms.priceTiers) || terms.priceTiers.length === 0) {
+      issues.push({ path: `${path}.priceTiers`, message: 'expected a non-empty array' })
+      return
+    }
+    terms.priceTiers.forEach((tier, index) => {
+      const base = `${path}.priceTiers[${index}]`
+      if (typeof tier?.name !== 'string' || tier.name.trim() === '') {
+        issues.push({ path: `${base}.name`, message: `expected a non-empty string, got ${JSON.stringify(tier?.name)}` })
+      }
+      for (const field of ['share', 'price'] as const) {
+        const value = tier?.[field]
+        if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+          issues.push({ path: `${base}.${field}`, message: `expected a number of 0 or more, got ${JSON.stringify(value)}` })
+        }
+      }
+    })
+    if (terms.priceTiers.every(tier => !tier?.share)) {
+      issues.push({ path: `${path}.priceTiers`, message: 'at least one tier needs a share above 0' })
+    }
+  }
+}
+
+/**
+ * Validates deals.json, collecting every problem rather than stopping at the first
+ */
+export function validateDealBook(payload: unknown): DealBook {
+  const issues: SchemaIssue[] = []
+  const book = (payload ?? {}) as Partial<DealBook>
+  if (!book.defaults || typeof book.defaults !== 'object') {
+    issues.push({ path: 'defaults', message: `expected an object, got ${JSON.stringify(book.defaults)}` })
+  } else {
+    checkTerms(book.defaults, 'defaults', true, issues)
+  }
+  for (const [stopId, terms] of Object.entries(book.stops ?? {})) {
+    checkTerms(terms ?? {}, `stops.${stopId}`, false, issues)
+  }
+
+  if (issues.length > 0) {
+    throw new DealsSchemaError(
+      `Invalid deals data: ${issues.length} problem${issues.length === 1 ? '' : 's'} found`,
+      issues
+    )
+  }
+  return { defaults: book.defaults!, stops: book.stops ?? {} }
+}
+
+/**
+ * Loads the deal terms, falling back to DEFAULT_DEAL_BOOK when none are published
+ */
+export async function loadDeals(): Promise<DealBook> {
+  const response = await fetch(`/${DEALS_DATA_PATH}`)
+  // Vite's dev server answers unknown paths with index.html rather than a 404
+  if (response.status === 404 || response.headers.get('content-type')?.includes('text/html')) {
+    console.warn(`[Deals] No ${DEALS_DATA_PATH}; using default terms`)
+    return DEFAULT_DEAL_BOOK
+  }
+  if (!response.ok) {
+    throw new Error(`Failed to load deals: ${response.status} ${response.statusText}`)
+  }
+  return validateDealBook(await response.json())
+}
+
+/**
+ * The stop's terms: its own entry (by id or alias) over the defaults
+ */
+export function dealTermsFor(stop: Stop, book: DealBook): DealTerms {
+  const own = [stop.id, ...stop.aliases].map(id => book.stops[id]).find(Boolean) ?? {}
+  return { ...book.defaults, ...own }
+}
+
+/**
+ * The sell-through a stop is projected at: the scenario's stop override, else
+ * the scenario's, else the deal terms'
+ */
+export function sellThroughFor(stop: Stop, scenario: Scenario, book: DealBook): number {
+  return findOverride(stop, scenario).sellThrough ?? scenario.sellThrough ?? dealTermsFor(stop, book).sellThrough
+}
+
+/**
+ * Tickets sold at a capacity: capacity x sell-through x scenario attendance, at most capacity
+ */
+export function ticketsSoldAt(stop: Stop, scenario: Scenario, book: DealBook, capacity: number): number {
+  const sellThrough = sellThroughFor(stop, scenario, book)
+  return Math.round(capacity * Math.min(1, sellThrough * scenarioMultipliers(stop, scenario).attendance))
+}
+
+const sumOf = (taxes: AppliedTax[]) => taxes.reduce((sum, tax) => sum + tax.amount, 0)
+
+/**
+ * Works the deal for a stop under a scenario at one capacity; null until
+ * capacity and a price are known
+ */
+export function computeDeal(stop: Stop, scenario: Scenario, book: DealBook, capacity: number | null): DealResult | null {
+  if (capacity == null || capacity === 0) return null
+
+  const terms = dealTermsFor(stop, book)
+  const projected = projectStop(stop, scenario)
+  const multipliers = scenarioMultipliers(stop, scenario)
+
+  let averagePrice: number
+  if (terms.priceTiers) {
+    const totalShare = terms.priceTiers.reduce((sum, tier) => sum + tier.share, 0)
+    averagePrice = terms.priceTiers.reduce((sum, tier) => sum + tier.price * tier.share, 0) / totalShare * multipliers.price
+  } else {
+    const { ticketPriceMin: min, ticketPriceMax: max } = projected
+    if (min == null && max == null) return null
+    averagePrice = ((min ?? max!) + (max ?? min!)) / 2
+  }
+
+  const ticketsSold = ticketsSoldAt(stop, scenario, book, capacity)
+  const grossBoxOffice = ticketsSold * averagePrice
+  const taxes = grossBoxOffice * terms.taxRate / (1 + terms.taxRate)
+  const fees = ticketsSold * (terms.ticketingFee + terms.facilityFee)
+  const rules = taxRulesFor(stop, book.taxRules ?? [])
+  const apply = (rule: TaxRule, amount: number): AppliedTax => ({
+    id: rule.id,
+    name: rule.name,
+    basis: rule.basis,
+    rate: rule.rate,
+    amount: Math.max(0, amount) * rule.rate
+  })
+  // Net levies are worked on what's left after the gross ones
+  const grossLevies = rules.filter(rule => rule.basis === 'gross').map(rule => apply(rule, grossBoxOffice))
+  const beforeNetLevies = grossBoxOffice - taxes - fees - sumOf(grossLevies)
+  const levies = [...grossLevies, ...rules.filter(rule => rule.basis === 'net').map(rule => apply(rule, beforeNetLevies))]
+  const netBoxOffice = Math.max(0, grossBoxOffice - taxes - fees - sumOf(levies))
+  // The guarantee is negotiated once, so scenarios without their own figure use the base one
+  const guarantee = terms.guarantee ?? projected.netGuarantee ?? stop.financials.base.netGuarantee ?? 0
+  const versusAmount = Math.max(0, netBoxOffice - terms.promoterCosts) * terms.versusPercent
+  const artistPayout = Math.max(guarantee, versusAmount)
+  const withholding = rules.filter(rule => rule.basis === 'payout').map(rule => apply(rule, artistPayout))
+
+  return {
+    currency: projected.currency,
+    capacity,
+    ticketsSold,
+    averagePrice,
+    grossBoxOffice,
+    taxes,
+    fees,
+    levies,
+    netBoxOffice,
+    promoterCosts: terms.promoterCosts,
+    guarantee,
+    versusPercent: terms.versusPercent,
+    versusAmount,
+    artistPayout,
+    withholding,
+    artistNet: artistPayout - sumOf(withholding),
+    payoutBasis: versusAmount > guarantee ? 'versus' : 'guarantee',
+    promoterResult: netBoxOffice - terms.promoterCosts - artistPayout
+  }
+}
+
+/** The deal worked at the low and high ends of the stop's capacity range */
+export interface DealRange {
+  low: DealResult
+  high: DealResult
+}
+
+/**
+ * Works the deal at capacityMin and capacityMax (the same deal twice when only one is known)
+ */
+export function computeDealRange(stop: Stop, scenario: Scenario, book: DealBook): DealRange | null {
+  const low = computeDeal(stop, scenario, book, stop.capacityMin ?? stop.capacityMax)
+  const high = computeDeal(stop, scenario, book, stop.capacityMax ?? stop.capacityMin)
+  return low && high ? { low, high } : null
+}
+
+/**
+ * One figure of a deal range, e.g. dealFigure(deal, d => d.grossBoxOffice)
+ */
+export function dealFigure(deal: DealRange, pick: (result: DealResult) => number): Range {
+  return rangeOf(pick(deal.low), pick(deal.high))
+}
@@ -0,0 +1,179 @@
+import type { Scenario, Stop } from '../data/types'
+import type { SchemaIssue } from '../data/schema'
+import { computeDealRange, dealFigure, type DealBook } from './deal'
+import { projectStop } from './projection'
+import { mapRange, pointRange, rangeOf, type Range } from './range'
+
+/**
+ * Show costs and tour overhead from public/data/expenses.json, and the P&L
+ * they give against the artist payout (see deal.ts):
+ *
+ *   income   artist net after withholding (the sheet's net/guarantee when the
+ *            deal can't be worked)
+ *   costs    production + crew + travel + hotels + venue rent
+ *   profit   income - costs
+ *   margin   profit / income
+ *
+ * Per-stop costs are in the stop's own currency; overhead has its own currency
+ * and only enters the tour rollup (see totals.ts).
+ */
+
+export const EXPENSES_DATA_PATH = 'data/expenses.json'
+
+export const EXPENSE_CATEGORIES = [
+  { key: 'production', label: 'Production' },
+  { key: 'crew', label: 'Crew' },
+  { key: 'travel', label: 'Travel' },
+  { key: 'hotels', label: 'Hotels' },
+  { key: 'venueRent', label: 'Venue rent' }
+] as const
+
+export type ExpenseCategory = (typeof EXPENSE_CATEGORIES)[number]['key']
+
+export type StopExpenses = { [C in ExpenseCategory]: number }
+
+export interface ExpenseBook {
+  defaults: StopExpenses
+  /** Keyed by stop id (or one of its aliases); missing categories use the defaults */
+  stops: { [stopId: string]: Partial<StopExpenses> }
+  /** Tour-level costs not tied to a show, e.g. management, insurance, rehearsals */
+  overhead: {
+    currency: string
+    items: { [label: string]: number }
+  }
+}
+
+export interface StopProfitAndLoss {
+  currency: string
+  income: Range | null
+  expenses: StopExpenses
+  totalExpenses: number
+  /** Null until the income is known */
+  profit: Range | null
+  /** Profit as a fraction of income; null without income */
+  margin: Range | null
+}
+
+export const DEFAULT_EXPENSE_BOOK: ExpenseBook = {
+  defaults: { production: 0, crew: 0, travel: 0, hotels: 0, venueRent: 0 },
+  stops: {},
+  overhead: { currency: 'USD', items: {} }
+}
+
+export class ExpensesSchemaError extends Error {
+  issues: SchemaIssue[]
+
+  constructor(message: string, issues: SchemaIssue[]) {
+    super(message)
+    this.name = 'ExpensesSchemaError'
+    this.issues = issues
+  }
+}
+
+function checkAmount(value: unknown, path: string, issues: SchemaIssue[]) {
+  if (value === undefined) {
+    issues.push({ path, message: 'missing' })
+  } else if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+    issues.push({ path, message: `expected a number of 0 or more, got ${JSON.stringify(value)}` })
+  }
+}
+
+/**
+ * Validates expenses.json, collecting every problem rather than stopping at the first
+ */
+export function validateExpenseBook(payload: unknown): ExpenseBook {
+  const issues: SchemaIssue[] = []
+  const book = (payload ?? {}) as Partial<ExpenseBook>
+  if (!book.defaults || typeof book.defaults !== 'object') {
+    issues.push({ path: 'defaults', message: `expected an object, got ${JSON.stringify(book.defaults)}` })
+  } else {
+    for (const { key } of EXPENSE_CATEGORIES) checkAmount(book.defaults[key], `defaults.${key}`, issues)
+  }
+  for (const [stopId, costs] of Object.entries(book.stops ?? {})) {
+    for (const [key, value] of Object.entries(costs ?? {})) {
+      if (!EXPENSE_CATEGORIES.some(category => category.key === key)) {
+        issues.push({ path: `stops.${stopId}.${key}`, message: `unknown category; expected one of ${EXPENSE_CATEGORIES.map(c => c.key).join(', ')}` })
+      } else {
+        checkAmount(value, `stops.${stopId}.${key}`, issues)
+      }
+    }
+  }
+  const overhead = book.overhead ?? DEFAULT_EXPENSE_BOOK.overhead
+  if (typeof overhead.currency !== 'string' || !/^[A-Z]{3}$/.test(overhead.currency)) {
+    issues.push({ path: 'overhead.currency', message: `expected an ISO 4217 code like "USD", got ${JSON.stringify(overhead.currency)}` })
+  }
+  for (const [label, value] of Object.entries(overhead.items ?? {})) {
+    checkAmount(value, `overhead.items.${label}`, issues)
+  }
+
+  if (issues.length > 0) {
+    throw new ExpensesSchemaError(
+      `Invalid expenses data: ${issues.length} problem${issues.length === 1 ? '' : 's'} found`,
+      issues
+    )
+  }
+  return {
+    defaults: book.defaults!,
+    stops: book.stops ?? {},
+    overhead: { currency: overhead.currency, items: overhead.items ?? {} }
+  }
+}
+
+/**
+ * Loads the expense model, falling back to DEFAULT_EXPENSE_BOOK (no costs) when none is published
+ */
+export async function loadExpenses(): Promise<ExpenseBook> {
+  const response = await fetch(`/${EXPENSES_DATA_PATH}`)
+  // Vite's dev server answers unknown paths with index.html rather than a 404
+  if (response.status === 404 || response.headers.get('content-type')?.includes('text/html')) {
+    console.warn(`[Expenses] No ${EXPENSES_DATA_PATH}; using no costs`)
+    return DEFAULT_EXPENSE_BOOK
+  }
+  if (!response.ok) {
+    throw new Error(`Failed to load expenses: ${response.status} ${response.statusText}`)
+  }
+  return validateExpenseBook(await response.json())
+}
+
+/**
+ * The stop's costs: its own entry (by id or alias) over the defaults
+ */
+export function expensesFor(stop: Stop, book: ExpenseBook): StopExpenses {
+  const own = [stop.id, ...stop.aliases].map(id => book.stops[id]).find(Boolean) ?? {}
+  return { ...book.defaults, ...own }
+}
+
+export function totalOf(expenses: StopExpenses): number {
+  return EXPENSE_CATEGORIES.reduce((sum, { key }) => sum + expenses[key], 0)
+}
+
+/**
+ * Margin range for an income and profit range; null when income is zero
+ */
+export function marginOf(income: Range, profit: Range): Range | null {
+  if (income.low <= 0 || income.high <= 0) return null
+  return rangeOf(profit.low / income.low, profit.high / income.high)
+}
+
+/**
+ * A stop's P&L under a scenario, in the stop's currency
+ */
+export function stopProfitAndLoss(stop: Stop, scenario: Scenario, deals: DealBook, book: ExpenseBook): StopProfitAndLoss {
+  const deal = computeDealRange(stop, scenario, deals)
+  const projected = projectStop(stop, scenario)
+  const income = deal
+    ? dealFigure(deal, d => d.artistNet)
+    : projected.netGuarantee != null ? pointRange(projected.netGuarantee) : null
+  const expenses = expensesFor(stop, book)
+  const totalExpenses = totalOf(expenses)
+  const profit = income ? mapRange(income, value => value - totalExpenses) : null
+
+  return {
+    currency: deal?.low.currency ?? projected.currency,
+    income,
+    expenses,
+    totalExpenses,
+    profit,
+    margin: income && profit ? marginOf(income, profit) : null
+  }
+}
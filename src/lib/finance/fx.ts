@@ -0,0 +1,89 @@
+import type { SchemaIssue } from '../data/schema'
+
+/**
+ * Exchange rates for converting stop figures into the reporting currency.
+ * The bundled table is public/data/fx-rates.json; set VITE_FX_RATES_URL to
+ * load a different one (same format) at runtime.
+ */
+
+export const FX_RATES_DATA_PATH = 'data/fx-rates.json'
+
+export interface FxTable {
+  /** Date the rates were taken, YYYY-MM-DD */
+  asOf: string
+  /** Currency every rate is quoted against */
+  base: string
+  /** Units of each currency per one unit of `base`, e.g. { "CAD": 1.37 } */
+  rates: { [currency: string]: number }
+}
+
+export class FxRatesSchemaError extends Error {
+  issues: SchemaIssue[]
+
+  constructor(message: string, issues: SchemaIssue[]) {
+    super(message)
+    this.name = 'FxRatesSchemaError'
+    this.issues = issues
+  }
+}
+
+export function validateFxTable(payload: unknown): FxTable {
+  const issues: SchemaIssue[] = []
+  const table = (payload ?? {}) as Partial<FxTable>
+  if (typeof table.asOf !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(table.asOf)) {
+    issues.push({ path: 'asOf', message: `expected YYYY-MM-DD, got ${JSON.stringify(table.asOf)}` })
+  }
+  if (typeof table.base !== 'string' || !/^[A-Z]{3}$/.test(table.base)) {
+    issues.push({ path: 'base', message: `expected an ISO 4217 code like "USD", got ${JSON.stringify(table.base)}` })
+  }
+  if (!table.rates || typeof table.rates !== 'object') {
+    issues.push({ path: 'rates', message: `expected an object, got ${JSON.stringify(table.rates)}` })
+  } else {
+    for (const [currency, rate] of Object.entries(table.rates)) {
+      if (!/^[A-Z]{3}$/.test(currency)) {
+        issues.push({ path: `rates.${currency}`, message: 'expected an ISO 4217 code as the key' })
+      } else if (typeof rate !== 'number' || !Number.isFinite(rate) || rate <= 0) {
+        issues.push({ path: `rates.${currency}`, message: `expected a positive number, got ${JSON.stringify(rate)}` })
+      }
+    }
+    if (typeof table.base === 'string' && table.rates[table.base] !== undefined && table.rates[table.base] !== 1) {
+      issues.push({ path: `rates.${table.base}`, message: `the base currency must be 1, got ${table.rates[table.base]}` })
+    }
+  }
+
+  if (issues.length > 0) {
+    throw new FxRatesSchemaError(
+      `Invalid FX rates: ${issues.length} problem${issues.length === 1 ? '' : 's'} found`,
+      issues
+    )
+  }
+  return { asOf: table.asOf!, base: table.base!, rates: { ...table.rates, [table.base!]: 1 } }
+}
+
+export async function loadFxRates(): Promise<FxTable> {
+  const configured = import.meta.env.VITE_FX_RATES_URL
+  const url = typeof configured === 'string' && configured.trim() ? configured.trim() : `/${FX_RATES_DATA_PATH}`
+  const response = await fetch(url)
+  if (!response.ok) {
+    throw new Error(`Failed to load FX rates from ${url}: ${response.status} ${response.statusText}`)
+  }
+  return validateFxTable(await response.json())
+}
+
+/**
+ * Currencies the table can convert between, base first
+ */
+export function listCurrencies(table: FxTable): string[] {
+  return [table.base, ...Object.keys(table.rates).filter(code => code !== table.base).sort()]
+}
+
+/**
+ * Converts an amount between currencies; null when either rate is missing
+ */
+export function convert(amount: number, from: string, to: string, table: FxTable): number | null {
+  if (from === to) return amount
+  const fromRate = table.rates[from]
+  const toRate = table.rates[to]
+  if (fromRate === undefined || toRate === undefined) return null
+  return amount / fromRate * toRate
+}
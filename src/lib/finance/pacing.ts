@@ -0,0 +1,235 @@
+import type { Scenario, Stop } from '../data/types'
+import type { SchemaIssue } from '../data/schema'
+import { sellThroughFor, type DealBook } from './deal'
+
+/**
+ * Ticket sales pacing from public/data/sales.json: each stop's daily sales,
+ * summed into a sales curve against capacityMax, and a forecast of the final
+ * sell-through.
+ *
+ * The forecast carries the recent selling rate (tickets per day over the last
+ * PACE_WINDOW_DAYS of data) forward to the show date, capped at capacity.
+ * Health compares that forecast with the sell-through the selected scenario
+ * projects (see sellThroughFor in deal.ts):
+ *
+ *   ahead     forecast at or above the projection
+ *   on-pace   within ON_PACE_MARGIN below it
+ *   behind    further below
+ *   sold-out  capacity reached
+ */
+
+export const SALES_DATA_PATH = 'data/sales.json'
+
+/** Days of recent sales the forecast's selling rate is taken from */
+export const PACE_WINDOW_DAYS = 14
+
+/** How far (as a fraction of capacity) the forecast can trail the projection and still be on pace */
+export const ON_PACE_MARGIN = 0.05
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export interface SalesEntry {
+  /** YYYY-MM-DD */
+  date: string
+  /** Tickets sold that day */
+  sold: number
+  /** Gross taken that day, in the stop's currency */
+  gross: number
+}
+
+export interface SalesBook {
+  /** Keyed by stop id (or one of its aliases) */
+  stops: { [stopId: string]: SalesEntry[] }
+}
+
+export type PacingHealth = 'ahead' | 'on-pace' | 'behind' | 'sold-out'
+
+/** Shared by the globe markers and the stop panel */
+export const PACING_COLORS: Record<PacingHealth, string> = {
+  'sold-out': '#7FB2E5',
+  ahead: '#6FCF97',
+  'on-pace': '#F2C94C',
+  behind: '#EB7A6A'
+}
+
+export const PACING_LABELS: Record<PacingHealth, string> = {
+  'sold-out': 'Sold out',
+  ahead: 'Ahead of projection',
+  'on-pace': 'On pace',
+  behind: 'Behind projection'
+}
+
+export interface SalesCurvePoint {
+  date: string
+  /** Tickets sold up to and including this day */
+  sold: number
+  gross: number
+}
+
+export interface Pacing {
+  curve: SalesCurvePoint[]
+  sold: number
+  gross: number
+  /** capacityMax; null when the venue's capacity isn't known */
+  capacity: number | null
+  /** sold / capacity */
+  soldShare: number | null
+  /** Whole days from today to the show; null without a show date */
+  daysRemaining: number | null
+  /** Tickets per day over the recent window */
+  dailyRate: number
+  forecastSold: number
+  forecastSellThrough: number | null
+  /** Projected sell-through for the scenario */
+  targetSellThrough: number
+  /** Null until the capacity is known */
+  health: PacingHealth | null
+}
+
+export const EMPTY_SALES: SalesBook = { stops: {} }
+
+export class SalesSchemaError extends Error {
+  issues: SchemaIssue[]
+
+  constructor(message: string, issues: SchemaIssue[]) {
+    super(message)
+    this.name = 'SalesSchemaError'
+    this.issues = issues
+  }
+}
+
+/**
+ * Validates sales.json, sorting each stop's days by date.
+ * Collects every problem rather than stopping at the first.
+ */
+export function validateSales(payload: unknown): SalesBook {
+  const issues: SchemaIssue[] = []
+  const raw = (payload as { stops?: unknown } | null)?.stops
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new SalesSchemaError('Invalid sales data', [
+      { path: 'stops', message: `expected an object keyed by stop id, got ${JSON.stringify(raw)}` }
+    ])
+  }
+
+  const stops: SalesBook['stops'] = {}
+  for (const [stopId, entries] of Object.entries(raw as Record<string, unknown>)) {
+    if (!Array.isArray(entries)) {
+      issues.push({ path: `stops.${stopId}`, message: `expected an array of daily sales, got ${JSON.stringify(entries)}` })
+      continue
+    }
+    const seenDates = new Set<string>()
+    entries.forEach((entry: Partial<SalesEntry> | null, index) => {
+      const base = `stops.${stopId}[${index}]`
+      if (typeof entry?.date !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(entry.date)) {
+        issues.push({ path: `${base}.date`, message: `expected YYYY-MM-DD, got ${JSON.stringify(entry?.date)}` })
+      } else if (seenDates.has(entry.date)) {
+        issues.push({ path: `${base}.date`, message: `duplicates an earlier day ${entry.date}` })
+      } else {
+        seenDates.add(entry.date)
+      }
+      if (!Number.isInteger(entry?.sold) || entry!.sold! < 0) {
+        issues.push({ path: `${base}.sold`, message: `expected a whole number of 0 or more, got ${JSON.stringify(entry?.sold)}` })
+      }
+      if (typeof entry?.gross !== 'number' || !Number.isFinite(entry.gross) || entry.gross < 0) {
+        issues.push({ path: `${base}.gross`, message: `expected a number of 0 or more, got ${JSON.stringify(entry?.gross)}` })
+      }
+    })
+    stops[stopId] = [...entries as SalesEntry[]].sort((a, b) => String(a?.date).localeCompare(String(b?.date)))
+  }
+
+  if (issues.length > 0) {
+    throw new SalesSchemaError(
+      `Invalid sales data: ${issues.length} problem${issues.length === 1 ? '' : 's'} found`,
+      issues
+    )
+  }
+  return { stops }
+}
+
+/**
+ * Loads the daily sales, or none when the file isn't published
+ */
+export async function loadSales(): Promise<SalesBook> {
+  const response = await fetch(`/${SALES_DATA_PATH}`)
+  // Vite's dev server answers unknown paths with index.html rather than a 404
+  if (response.status === 404 || response.headers.get('content-type')?.includes('text/html')) {
+    console.warn(`[Sales] No ${SALES_DATA_PATH}; pacing is off`)
+    return EMPTY_SALES
+  }
+  if (!response.ok) {
+    throw new Error(`Failed to load sales: ${response.status} ${response.statusText}`)
+  }
+  return validateSales(await response.json())
+}
+
+export function salesFor(stop: Stop, book: SalesBook): SalesEntry[] {
+  return [stop.id, ...stop.aliases].map(id => book.stops[id]).find(entries => entries?.length) ?? []
+}
+
+const dayNumber = (date: string) => Math.floor(Date.parse(`${date}T00:00:00Z`) / DAY_MS)
+
+/**
+ * Today's date as YYYY-MM-DD in the browser's timezone
+ */
+export function todayString(now: number): string {
+  const today = new Date(now)
+  const pad = (value: number) => String(value).padStart(2, '0')
+  return `${today.getFullYear()}-${pad(today.getMonth() + 1)}-${pad(today.getDate())}`
+}
+
+/**
+ * The stop's sales curve and forecast as of `today` (YYYY-MM-DD); null without sales data
+ */
+export function computePacing(stop: Stop, scenario: Scenario, deals: DealBook, sales: SalesBook, today: string): Pacing | null {
+  const entries = salesFor(stop, sales)
+  if (entries.length === 0) return null
+
+  let sold = 0
+  let gross = 0
+  const curve = entries.map(entry => {
+    sold += entry.sold
+    gross += entry.gross
+    return { date: entry.date, sold, gross }
+  })
+
+  // Selling rate over the last PACE_WINDOW_DAYS of data
+  const last = curve[curve.length - 1]
+  const windowStart = dayNumber(last.date) - PACE_WINDOW_DAYS
+  const before = [...curve].reverse().find(point => dayNumber(point.date) <= windowStart)
+  const first = curve[0]
+  const [fromSold, fromDay] = before
+    ? [before.sold, dayNumber(before.date)]
+    : [0, dayNumber(first.date) - 1] // the first day's sales count as one day's selling
+  const dailyRate = (last.sold - fromSold) / Math.max(1, dayNumber(last.date) - fromDay)
+
+  const capacity = stop.capacityMax ?? stop.capacityMin
+  const daysRemaining = stop.date ? Math.max(0, dayNumber(stop.date) - dayNumber(today)) : null
+  // Forecast the days from today (or the last day of data, if later) to the show
+  const daysToSell = stop.date ? Math.max(0, dayNumber(stop.date) - Math.max(dayNumber(today), dayNumber(last.date))) : 0
+  const uncapped = sold + dailyRate * daysToSell
+  const forecastSold = Math.round(capacity != null ? Math.min(capacity, uncapped) : uncapped)
+  const forecastSellThrough = capacity ? forecastSold / capacity : null
+  const targetSellThrough = sellThroughFor(stop, scenario, deals)
+
+  let health: PacingHealth | null = null
+  if (capacity && forecastSellThrough != null) {
+    if (sold >= capacity) health = 'sold-out'
+    else if (forecastSellThrough >= targetSellThrough) health = 'ahead'
+    else if (forecastSellThrough >= targetSellThrough - ON_PACE_MARGIN) health = 'on-pace'
+    else health = 'behind'
+  }
+
+  return {
+    curve,
+    sold,
+    gross,
+    capacity,
+    soldShare: capacity ? sold / capacity : null,
+    daysRemaining,
+    dailyRate,
+    forecastSold,
+    forecastSellThrough,
+    targetSellThrough,
+    health
+  }
+}
@@ -0,0 +1,50 @@
+import type { Scenario, ScenarioMultipliers, ScenarioStopOverride, Stop, StopFinancials } from '../data/types'
+
+/**
+ * Scenario projections. A scenario starts from the stop's base or upside
+ * figures, scales them by its multipliers (a per-stop override's multipliers
+ * replace the scenario's), then applies any figures the override spells out.
+ *
+ *   attendance  scales projected gross
+ *   price       scales ticket prices and projected gross
+ *
+ * Net/guarantee is a negotiated figure and is not scaled; override it per stop.
+ */
+
+export function findOverride(stop: Stop, scenario: Scenario): ScenarioStopOverride {
+  for (const id of [stop.id, ...stop.aliases]) {
+    if (scenario.stops[id]) return scenario.stops[id]
+  }
+  return {}
+}
+
+const scale = (value: number | null, factor: number) => (value == null ? null : value * factor)
+
+/**
+ * The multipliers that apply to a stop: its override's, else the scenario's, else 1
+ */
+export function scenarioMultipliers(stop: Stop, scenario: Scenario): Required<ScenarioMultipliers> {
+  const override = findOverride(stop, scenario)
+  return {
+    attendance: override.attendance ?? scenario.multipliers.attendance ?? 1,
+    price: override.price ?? scenario.multipliers.price ?? 1
+  }
+}
+
+/**
+ * The stop's figures under a scenario
+ */
+export function projectStop(stop: Stop, scenario: Scenario): StopFinancials {
+  const source = stop.financials[scenario.basis]
+  const override = findOverride(stop, scenario)
+  const { attendance, price } = scenarioMultipliers(stop, scenario)
+
+  return {
+    currency: source.currency,
+    ticketPriceMin: override.ticketPriceMin ?? scale(source.ticketPriceMin, price),
+    ticketPriceMax: override.ticketPriceMax ?? scale(source.ticketPriceMax, price),
+    projectedGross: override.projectedGross ?? scale(source.projectedGross, attendance * price),
+    netGuarantee: override.netGuarantee ?? source.netGuarantee,
+    rationale: override.rationale ?? source.rationale
+  }
+}
@@ -0,0 +1,41 @@
+/**
+ * Low/high ranges for figures driven by a venue's capacity range. A figure
+ * with no uncertainty is a range whose low and high are equal.
+ */
+
+export interface Range {
+  low: number
+  high: number
+}
+
+export function pointRange(value: number): Range {
+  return { low: value, high: value }
+}
+
+/**
+ * Orders two values into a range
+ */
+export function rangeOf(a: number, b: number): Range {
+  return { low: Math.min(a, b), high: Math.max(a, b) }
+}
+
+export function addRanges(a: Range, b: Range): Range {
+  return { low: a.low + b.low, high: a.high + b.high }
+}
+
+export function mapRange(range: Range, fn: (value: number) => number): Range {
+  return rangeOf(fn(range.low), fn(range.high))
+}
+
+export function isPoint(range: Range): boolean {
+  return range.low === range.high
+}
+
+/**
+ * "1,200 - 1,500", or "1,200" when both ends agree
+ */
+export function formatRange(range: Range, format: (value: number) => string): string {
+  const low = format(range.low)
+  const high = format(range.high)
+  return low === high ? low : `${low} - ${high}`
+}
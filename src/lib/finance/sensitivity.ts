@@ -0,0 +1,80 @@
+import type { Scenario, Stop } from '../data/types'
+
+/**
+ * Live what-if adjustments from the sensitivity panel, layered over the selected
+ * scenario. The result is an ordinary Scenario, so every projection, deal and
+ * total recomputes from it, and it can be saved as a new scenario.
+ */
+
+export interface Sensitivity {
+  /** Average ticket price change, e.g. -0.1 for 10% cheaper */
+  priceChange: number
+  /** Fraction of capacity sold (0-1); null keeps the scenario's or the deal's */
+  sellThrough: number | null
+  /** Adjust every stop, or only this one */
+  stopId: string | null
+}
+
+export const NO_SENSITIVITY: Sensitivity = { priceChange: 0, sellThrough: null, stopId: null }
+
+export function isNeutral(sensitivity: Sensitivity): boolean {
+  return sensitivity.priceChange === 0 && sensitivity.sellThrough === null
+}
+
+/**
+ * The scenario with the adjustments applied
+ */
+export function applySensitivity(scenario: Scenario, sensitivity: Sensitivity, stops: Stop[]): Scenario {
+  if (isNeutral(sensitivity)) return scenario
+  const factor = 1 + sensitivity.priceChange
+  const sellThrough = sensitivity.sellThrough ?? undefined
+
+  if (sensitivity.stopId) {
+    const stop = stops.find(s => s.id === sensitivity.stopId)
+    const key = stop ? [stop.id, ...stop.aliases].find(id => scenario.stops[id]) ?? stop.id : sensitivity.stopId
+    const own = scenario.stops[key] ?? {}
+    return {
+      ...scenario,
+      stops: {
+        ...scenario.stops,
+        [key]: {
+          ...own,
+          price: (own.price ?? scenario.multipliers.price ?? 1) * factor,
+          ...(sellThrough !== undefined ? { sellThrough } : {})
+        }
+      }
+    }
+  }
+
+  // Stops with their own price multiplier or sell-through would otherwise ignore the tour-wide change
+  const adjustedStops = Object.fromEntries(
+    Object.entries(scenario.stops).map(([id, own]) => [
+      id,
+      {
+        ...own,
+        ...(own.price !== undefined ? { price: own.price * factor } : {}),
+        ...(sellThrough !== undefined && own.sellThrough !== undefined ? { sellThrough } : {})
+      }
+    ])
+  )
+  return {
+    ...scenario,
+    multipliers: { ...scenario.multipliers, price: (scenario.multipliers.price ?? 1) * factor },
+    ...(sellThrough !== undefined ? { sellThrough } : {}),
+    stops: adjustedStops
+  }
+}
+
+/**
+ * Short description of the adjustments, used when saving: "Price +10%, sell-through 95% (Chicago)"
+ */
+export function describeSensitivity(sensitivity: Sensitivity, stops: Stop[]): string {
+  const parts: string[] = []
+  if (sensitivity.priceChange !== 0) {
+    parts.push(`price ${sensitivity.priceChange > 0 ? '+' : ''}${Math.round(sensitivity.priceChange * 100)}%`)
+  }
+  if (sensitivity.sellThrough !== null) parts.push(`sell-through ${Math.round(sensitivity.sellThrough * 100)}%`)
+  const stop = sensitivity.stopId ? stops.find(s => s.id === sensitivity.stopId) : null
+  const text = parts.join(', ')
+  return `${text.charAt(0).toUpperCase()}${text.slice(1)}${stop ? ` (${stop.city})` : ' (all stops)'}`
+}
@@ -0,0 +1,375 @@
+import type { Scenario, Stop } from '../data/types'
+import type { SchemaIssue } from '../data/schema'
+import { computeDeal, type DealBook } from './deal'
+import { convert, type FxTable } from './fx'
+import { findOverride, projectStop, scenarioMultipliers } from './projection'
+
+/**
+ * Monte Carlo simulation of the tour's gross and net box office. Each trial
+ * samples every stop's sell-through and a price factor from the distributions
+ * in public/data/simulation.json, works the stop's deal with them (see deal.ts)
+ * and adds the results up in the reporting currency.
+ *
+ *   sell-through  replaces the deal's sell-through; when the scenario (or the
+ *                 sensitivity panel) sets one, the distribution is moved to
+ *                 centre on it and keeps only its spread
+ *   price         multiplies the scenario's price multiplier
+ *   capacity      uniform between the stop's capacityMin and capacityMax
+ *
+ * Stops in the same market (country, as in the header's Markets count) share
+ * part of their draw: `marketCorrelation` 0 samples every stop independently,
+ * 1 moves them together. Stops whose deal can't be worked (no capacity) are
+ * left out of both gross and net, and counted in `withoutDeal`.
+ *
+ * Trials run in a Web Worker (simulation.worker.ts); runSimulation itself is
+ * plain and synchronous.
+ */
+
+export const SIMULATION_DATA_PATH = 'data/simulation.json'
+
+export type Distribution =
+  | { type: 'fixed'; value: number }
+  | { type: 'uniform'; min: number; max: number }
+  | { type: 'triangular'; min: number; mode: number; max: number }
+  /** Clamped to min/max when given */
+  | { type: 'normal'; mean: number; sd: number; min?: number; max?: number }
+
+export interface StopDistributions {
+  /** Fraction of capacity sold; samples are clamped to 0-1 */
+  sellThrough: Distribution
+  /** Factor on the scenario's ticket prices; 1 leaves them unchanged */
+  price: Distribution
+}
+
+export interface SimulationConfig extends StopDistributions {
+  trials: number
+  /** Histogram bars */
+  bins: number
+  /** 0-1, see above */
+  marketCorrelation: number
+  /** Fixed seed for repeatable runs; random when omitted */
+  seed?: number
+  /** Per-stop distributions, keyed by stop id (or one of its aliases) */
+  stops: { [stopId: string]: Partial<StopDistributions> }
+}
+
+export const DEFAULT_SIMULATION_CONFIG: SimulationConfig = {
+  trials: 5000,
+  bins: 24,
+  marketCorrelation: 0.5,
+  sellThrough: { type: 'triangular', min: 0.6, mode: 0.87, max: 1 },
+  price: { type: 'normal', mean: 1, sd: 0.08, min: 0.7, max: 1.3 },
+  stops: {}
+}
+
+export interface SimulationRequest {
+  stops: Stop[]
+  scenario: Scenario
+  deals: DealBook
+  fx: FxTable
+  currency: string
+  config: SimulationConfig
+}
+
+export interface Histogram {
+  min: number
+  /** Width of each bin */
+  step: number
+  counts: number[]
+}
+
+export interface DistributionSummary {
+  p10: number
+  p50: number
+  p90: number
+  mean: number
+  histogram: Histogram
+}
+
+export interface SimulationResult {
+  trials: number
+  currency: string
+  grossBoxOffice: DistributionSummary
+  netBoxOffice: DistributionSummary
+  /** Currencies left out because the FX table has no rate */
+  unconverted: string[]
+  /** Stops left out because their deal can't be worked */
+  withoutDeal: number
+}
+
+export class SimulationSchemaError extends Error {
+  issues: SchemaIssue[]
+
+  constructor(message: string, issues: SchemaIssue[]) {
+    super(message)
+    this.name = 'SimulationSchemaError'
+    this.issues = issues
+  }
+}
+
+function checkDistribution(value: unknown, path: string, issues: SchemaIssue[]) {
+  const dist = (value ?? {}) as Record<string, unknown>
+  const fields = {
+    fixed: ['value'],
+    uniform: ['min', 'max'],
+    triangular: ['min', 'mode', 'max'],
+    normal: ['mean', 'sd']
+  }[dist.type as Distribution['type']]
+  if (!fields) {
+    issues.push({ path: `${path}.type`, message: `expected one of fixed, uniform, triangular, normal, got ${JSON.stringify(dist.type)}` })
+    return
+  }
+  for (const field of [...fields, ...(dist.type === 'normal' ? ['min', 'max'] : [])]) {
+    const number = dist[field]
+    if (number === undefined && !fields.includes(field)) continue
+    if (typeof number !== 'number' || !Number.isFinite(number) || number < 0) {
+      issues.push({ path: `${path}.${field}`, message: `expected a number of 0 or more, got ${JSON.stringify(number)}` })
+    }
+  }
+  const { min, mode, max } = dist as { min?: number; mode?: number; max?: number }
+  if (typeof min === 'number' && typeof max === 'number' && min > max) {
+    issues.push({ path, message: `min ${min} is above max ${max}` })
+  } else if (dist.type === 'triangular' && typeof mode === 'number' && (mode < min! || mode > max!)) {
+    issues.push({ path: `${path}.mode`, message: `expected between min and max, got ${mode}` })
+  }
+}
+
+/**
+ * Validates simulation.json, filling omitted settings from DEFAULT_SIMULATION_CONFIG.
+ * Collects every problem rather than stopping at the first.
+ */
+export function validateSimulationConfig(payload: unknown): SimulationConfig {
+  const issues: SchemaIssue[] = []
+  const config = { ...DEFAULT_SIMULATION_CONFIG, ...(payload ?? {}) as Partial<SimulationConfig> }
+
+  for (const field of ['trials', 'bins'] as const) {
+    if (!Number.isInteger(config[field]) || config[field] < 1) {
+      issues.push({ path: field, message: `expected a whole number of 1 or more, got ${JSON.stringify(config[field])}` })
+    }
+  }
+  if (typeof config.marketCorrelation !== 'number' || !(config.marketCorrelation >= 0 && config.marketCorrelation <= 1)) {
+    issues.push({ path: 'marketCorrelation', message: `expected 0 to 1, got ${JSON.stringify(config.marketCorrelation)}` })
+  }
+  if (config.seed !== undefined && !Number.isInteger(config.seed)) {
+    issues.push({ path: 'seed', message: `expected a whole number, got ${JSON.stringify(config.seed)}` })
+  }
+  checkDistribution(config.sellThrough, 'sellThrough', issues)
+  checkDistribution(config.price, 'price', issues)
+  for (const [stopId, own] of Object.entries(config.stops ?? {})) {
+    for (const field of ['sellThrough', 'price'] as const) {
+      if (own?.[field] !== undefined) checkDistribution(own[field], `stops.${stopId}.${field}`, issues)
+    }
+  }
+
+  if (issues.length > 0) {
+    throw new SimulationSchemaError(
+      `Invalid simulation settings: ${issues.length} problem${issues.length === 1 ? '' : 's'} found`,
+      issues
+    )
+  }
+  return { ...config, stops: config.stops ?? {} }
+}
+
+/**
+ * Loads the simulation settings, falling back to DEFAULT_SIMULATION_CONFIG when none are published
+ */
+export async function loadSimulationConfig(): Promise<SimulationConfig> {
+  const response = await fetch(`/${SIMULATION_DATA_PATH}`)
+  // Vite's dev server answers unknown paths with index.html rather than a 404
+  if (response.status === 404 || response.headers.get('content-type')?.includes('text/html')) {
+    console.warn(`[Simulation] No ${SIMULATION_DATA_PATH}; using default distributions`)
+    return DEFAULT_SIMULATION_CONFIG
+  }
+  if (!response.ok) {
+    throw new Error(`Failed to load simulation settings: ${response.status} ${response.statusText}`)
+  }
+  return validateSimulationConfig(await response.json())
+}
+
+/** Small seedable PRNG (mulberry32); returns floats in [0, 1) */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+/** Standard normal draw (Box-Muller) */
+function normal(random: () => number): number {
+  return Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random())
+}
+
+/** Standard normal CDF (Abramowitz-Stegun 7.1.26 erf) */
+function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2
+  const t = 1 / (1 + 0.3275911 * x)
+  const erf = 1 - ((((1.061405429 * t - 1.453152027) * t + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t * Math.exp(-x * x)
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2
+}
+
+const clamp = (value: number, min = -Infinity, max = Infinity) => Math.min(max, Math.max(min, value))
+
+/**
+ * Maps a standard normal draw to a sample from the distribution, so correlated
+ * draws stay correlated whatever the distribution's shape
+ */
+function sample(dist: Distribution, z: number): number {
+  switch (dist.type) {
+    case 'fixed':
+      return dist.value
+    case 'normal':
+      return clamp(dist.mean + dist.sd * z, dist.min, dist.max)
+    case 'uniform':
+      return dist.min + (dist.max - dist.min) * normalCdf(z)
+    case 'triangular': {
+      const { min, mode, max } = dist
+      const u = normalCdf(z)
+      if (max === min) return min
+      const split = (mode - min) / (max - min)
+      return u < split
+        ? min + Math.sqrt(u * (max - min) * (mode - min))
+        : max - Math.sqrt((1 - u) * (max - min) * (max - mode))
+    }
+  }
+}
+
+/** Where the distribution is centred: its value, mean, mode or midpoint */
+function centreOf(dist: Distribution): number {
+  switch (dist.type) {
+    case 'fixed':
+      return dist.value
+    case 'normal':
+      return dist.mean
+    case 'uniform':
+      return (dist.min + dist.max) / 2
+    case 'triangular':
+      return dist.mode
+  }
+}
+
+/** The same distribution moved so its centre is `centre` */
+function centredOn(dist: Distribution, centre: number): Distribution {
+  const shift = centre - centreOf(dist)
+  switch (dist.type) {
+    case 'fixed':
+      return { ...dist, value: centre }
+    case 'normal':
+      return {
+        ...dist,
+        mean: centre,
+        ...(dist.min !== undefined ? { min: dist.min + shift } : {}),
+        ...(dist.max !== undefined ? { max: dist.max + shift } : {})
+      }
+    case 'uniform':
+      return { ...dist, min: dist.min + shift, max: dist.max + shift }
+    case 'triangular':
+      return { ...dist, min: dist.min + shift, mode: centre, max: dist.max + shift }
+  }
+}
+
+/** Value at fraction q (0-1) of sorted values, interpolating between neighbours */
+function percentile(sorted: Float64Array, q: number): number {
+  const index = (sorted.length - 1) * q
+  const below = Math.floor(index)
+  const above = Math.min(sorted.length - 1, below + 1)
+  return sorted[below] + (sorted[above] - sorted[below]) * (index - below)
+}
+
+function summarize(values: Float64Array, bins: number): DistributionSummary {
+  const sorted = values.slice().sort()
+  const min = sorted[0]
+  const max = sorted[sorted.length - 1]
+  const step = (max - min) / bins || 1
+  const counts = new Array<number>(bins).fill(0)
+  for (const value of sorted) counts[Math.min(bins - 1, Math.floor((value - min) / step))]++
+
+  return {
+    p10: percentile(sorted, 0.1),
+    p50: percentile(sorted, 0.5),
+    p90: percentile(sorted, 0.9),
+    mean: sorted.reduce((sum, value) => sum + value, 0) / sorted.length,
+    histogram: { min, step, counts }
+  }
+}
+
+/**
+ * Runs config.trials trials of the tour and summarizes gross and net box office
+ */
+export function runSimulation({ stops, scenario, deals, fx, currency, config }: SimulationRequest): SimulationResult {
+  const random = createRandom(config.seed ?? Math.floor(Math.random() * 2 ** 32))
+  const shared = Math.sqrt(config.marketCorrelation)
+  const own = Math.sqrt(1 - config.marketCorrelation)
+  const gross = new Float64Array(config.trials)
+  const net = new Float64Array(config.trials)
+  const unconverted = new Set<string>()
+
+  // Work out everything that doesn't change between trials once
+  let withoutDeal = 0
+  const simulated = stops.flatMap(stop => {
+    const projected = projectStop(stop, scenario)
+    const rate = convert(1, projected.currency, currency, fx)
+    if (rate == null) {
+      unconverted.add(projected.currency)
+      return []
+    }
+    const low = stop.capacityMin ?? stop.capacityMax
+    const high = stop.capacityMax ?? stop.capacityMin
+    if (low == null || high == null || !computeDeal(stop, scenario, deals, low)) {
+      withoutDeal++
+      return []
+    }
+    const distributions = [stop.id, ...stop.aliases].map(id => config.stops[id]).find(Boolean) ?? {}
+    const key = [stop.id, ...stop.aliases].find(id => scenario.stops[id]) ?? stop.id
+    const override = findOverride(stop, scenario)
+    const sellThrough = distributions.sellThrough ?? config.sellThrough
+    const adjustedSellThrough = override.sellThrough ?? scenario.sellThrough
+    return [{
+      stop,
+      rate,
+      market: stop.countryCode ?? stop.id,
+      capacity: { low, high },
+      sellThrough: adjustedSellThrough != null ? centredOn(sellThrough, adjustedSellThrough) : sellThrough,
+      price: distributions.price ?? config.price,
+      key,
+      override,
+      basePrice: scenarioMultipliers(stop, scenario).price
+    }]
+  })
+
+  const markets = [...new Set(simulated.map(entry => entry.market))]
+  for (let trial = 0; trial < config.trials; trial++) {
+    // One shared sell-through and one shared price shock per market
+    const shocks = new Map(markets.map(market => [market, [normal(random), normal(random)]]))
+    let trialGross = 0
+    let trialNet = 0
+    for (const entry of simulated) {
+      const [sellShock, priceShock] = shocks.get(entry.market)!
+      const sellThrough = clamp(sample(entry.sellThrough, shared * sellShock + own * normal(random)), 0, 1)
+      const price = Math.max(0, sample(entry.price, shared * priceShock + own * normal(random)))
+      const capacity = Math.round(entry.capacity.low + (entry.capacity.high - entry.capacity.low) * random())
+      const trialScenario: Scenario = {
+        ...scenario,
+        stops: { ...scenario.stops, [entry.key]: { ...entry.override, sellThrough, price: entry.basePrice * price } }
+      }
+      const deal = computeDeal(entry.stop, trialScenario, deals, capacity)
+      if (!deal) continue
+      trialGross += deal.grossBoxOffice * entry.rate
+      trialNet += deal.netBoxOffice * entry.rate
+    }
+    gross[trial] = trialGross
+    net[trial] = trialNet
+  }
+
+  return {
+    trials: config.trials,
+    currency,
+    grossBoxOffice: summarize(gross, config.bins),
+    netBoxOffice: summarize(net, config.bins),
+    unconverted: [...unconverted],
+    withoutDeal
+  }
+}
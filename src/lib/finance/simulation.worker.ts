@@ -0,0 +1,10 @@
+import { runSimulation, type SimulationRequest } from './simulation'
+
+/**
+ * Runs simulations off the main thread; see useSimulation in SimulationPanel
+ */
+const scope = self as unknown as Worker
+
+scope.onmessage = (event: MessageEvent<SimulationRequest>) => {
+  scope.postMessage(runSimulation(event.data))
+}
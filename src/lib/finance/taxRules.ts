@@ -0,0 +1,135 @@
+import type { Stop } from '../data/types'
+import type { SchemaIssue } from '../data/schema'
+
+/**
+ * Country and province tax rules applied to a stop's deal (see deal.ts). The
+ * bundled table is public/data/tax-rules.json; set VITE_TAX_RULES_URL to load
+ * a different one (same format) at runtime.
+ *
+ * A rule applies to stops in its country, or only its province when it names
+ * one (`admin1Code`, e.g. "CA-QC"). Rules sharing an id are versions of one
+ * tax: the latest version in effect on the show date applies.
+ *
+ *   gross   share of gross box office, taken before net
+ *   net     share of net box office (after fees and gross levies)
+ *   payout  withheld from the artist payout; doesn't change the promoter's side
+ */
+
+export const TAX_RULES_DATA_PATH = 'data/tax-rules.json'
+
+export type TaxBasis = 'gross' | 'net' | 'payout'
+
+export const TAX_BASES: TaxBasis[] = ['gross', 'net', 'payout']
+
+export interface TaxRule {
+  /** Shared by every version of the same tax */
+  id: string
+  name: string
+  /** ISO 3166-1 alpha-2 */
+  countryCode: string
+  /** ISO 3166-2, for province or state taxes */
+  admin1Code?: string
+  /** Fraction of the basis, 0-1 */
+  rate: number
+  basis: TaxBasis
+  /** YYYY-MM-DD; the version applies to shows on or after it */
+  effectiveFrom: string
+  /** YYYY-MM-DD; shows on or after it need a later version */
+  effectiveTo?: string
+  notes?: string
+}
+
+export interface TaxRuleTable {
+  /** Date the table was last checked, YYYY-MM-DD */
+  asOf: string
+  rules: TaxRule[]
+}
+
+export class TaxRulesSchemaError extends Error {
+  issues: SchemaIssue[]
+
+  constructor(message: string, issues: SchemaIssue[]) {
+    super(message)
+    this.name = 'TaxRulesSchemaError'
+    this.issues = issues
+  }
+}
+
+const DATE = /^\d{4}-\d{2}-\d{2}$/
+
+export function validateTaxRules(payload: unknown): TaxRuleTable {
+  const issues: SchemaIssue[] = []
+  const table = (payload ?? {}) as Partial<TaxRuleTable>
+  if (typeof table.asOf !== 'string' || !DATE.test(table.asOf)) {
+    issues.push({ path: 'asOf', message: `expected YYYY-MM-DD, got ${JSON.stringify(table.asOf)}` })
+  }
+  if (!Array.isArray(table.rules)) {
+    issues.push({ path: 'rules', message: `expected an array, got ${JSON.stringify(table.rules)}` })
+  } else {
+    table.rules.forEach((raw, index) => {
+      const base = `rules[${index}]`
+      const rule = (raw ?? {}) as Partial<TaxRule>
+      if (typeof rule.id !== 'string' || !/^[a-z0-9-]+$/.test(rule.id)) {
+        issues.push({ path: `${base}.id`, message: `expected lowercase letters, digits and dashes, got ${JSON.stringify(rule.id)}` })
+      }
+      if (typeof rule.name !== 'string' || rule.name.trim() === '') {
+        issues.push({ path: `${base}.name`, message: `expected a non-empty string, got ${JSON.stringify(rule.name)}` })
+      }
+      if (typeof rule.countryCode !== 'string' || !/^[A-Z]{2}$/.test(rule.countryCode)) {
+        issues.push({ path: `${base}.countryCode`, message: `expected an ISO 3166-1 code like "CA", got ${JSON.stringify(rule.countryCode)}` })
+      }
+      if (rule.admin1Code !== undefined && (typeof rule.admin1Code !== 'string' || !rule.admin1Code.startsWith(`${rule.countryCode}-`))) {
+        issues.push({ path: `${base}.admin1Code`, message: `expected an ISO 3166-2 code in ${rule.countryCode}, got ${JSON.stringify(rule.admin1Code)}` })
+      }
+      if (typeof rule.rate !== 'number' || !(rule.rate >= 0 && rule.rate <= 1)) {
+        issues.push({ path: `${base}.rate`, message: `expected 0 to 1, got ${JSON.stringify(rule.rate)}` })
+      }
+      if (!TAX_BASES.includes(rule.basis as TaxBasis)) {
+        issues.push({ path: `${base}.basis`, message: `expected one of ${TAX_BASES.join(', ')}, got ${JSON.stringify(rule.basis)}` })
+      }
+      if (typeof rule.effectiveFrom !== 'string' || !DATE.test(rule.effectiveFrom)) {
+        issues.push({ path: `${base}.effectiveFrom`, message: `expected YYYY-MM-DD, got ${JSON.stringify(rule.effectiveFrom)}` })
+      }
+      if (rule.effectiveTo !== undefined
+        && (typeof rule.effectiveTo !== 'string' || !DATE.test(rule.effectiveTo) || rule.effectiveTo <= String(rule.effectiveFrom))) {
+        issues.push({ path: `${base}.effectiveTo`, message: `expected YYYY-MM-DD after effectiveFrom, got ${JSON.stringify(rule.effectiveTo)}` })
+      }
+    })
+  }
+
+  if (issues.length > 0) {
+    throw new TaxRulesSchemaError(
+      `Invalid tax rules: ${issues.length} problem${issues.length === 1 ? '' : 's'} found`,
+      issues
+    )
+  }
+  return { asOf: table.asOf!, rules: table.rules! }
+}
+
+export async function loadTaxRules(): Promise<TaxRuleTable> {
+  const configured = import.meta.env.VITE_TAX_RULES_URL
+  const url = typeof configured === 'string' && configured.trim() ? configured.trim() : `/${TAX_RULES_DATA_PATH}`
+  const response = await fetch(url)
+  if (!response.ok) {
+    throw new Error(`Failed to load tax rules from ${url}: ${response.status} ${response.statusText}`)
+  }
+  return validateTaxRules(await response.json())
+}
+
+/**
+ * The rules in effect for a stop: one version per tax, chosen by the show date
+ * (`today`, YYYY-MM-DD in UTC by default, when the date isn't set)
+ */
+export function taxRulesFor(stop: Stop, rules: TaxRule[], today?: string): TaxRule[] {
+  if (rules.length === 0) return []
+  const date = stop.date ?? today ?? new Date().toISOString().slice(0, 10)
+  const latest = new Map<string, TaxRule>()
+  for (const rule of rules) {
+    if (rule.countryCode !== stop.countryCode) continue
+    if (rule.admin1Code && rule.admin1Code !== stop.admin1Code) continue
+    if (rule.effectiveFrom > date || (rule.effectiveTo && rule.effectiveTo <= date)) continue
+    const current = latest.get(rule.id)
+    if (!current || rule.effectiveFrom > current.effectiveFrom) latest.set(rule.id, rule)
+  }
+  return [...latest.values()]
+}
@@ -0,0 +1,97 @@
+import type { Scenario, Stop } from '../data/types'
+import { computeDealRange, dealFigure, type DealBook } from './deal'
+import { expensesFor, marginOf, totalOf, type ExpenseBook } from './expenses'
+import { convert, type FxTable } from './fx'
+import { projectStop } from './projection'
+import { addRanges, mapRange, pointRange, type Range } from './range'
+
+/**
+ * Tour totals under a scenario, in the reporting currency. A stop's worked deal
+ * supplies its figures; stops whose deal can't be worked yet fall back to the
+ * sheet's projected gross and net/guarantee. Each total is a low/high range
+ * driven by the stops' capacity ranges.
+ *
+ * The P&L rollup takes every stop's costs and the tour overhead (expenses.ts)
+ * off the total artist net (payout after withholding).
+ */
+
+export interface TourTotals {
+  /** Null when no stop has the figure yet */
+  grossBoxOffice: Range | null
+  netBoxOffice: Range | null
+  artistPayout: Range | null
+  /** Artist payout after withholding */
+  artistNet: Range | null
+  /** Show costs of every stop plus tour overhead */
+  expenses: number
+  /** Null until some stop has an artist net */
+  profit: Range | null
+  margin: Range | null
+  /** Currencies left out of the totals because the FX table has no rate */
+  unconverted: string[]
+}
+
+export function projectTotals(
+  stops: Stop[],
+  scenario: Scenario,
+  deals: DealBook,
+  expenses: ExpenseBook,
+  fx: FxTable,
+  currency: string
+): TourTotals {
+  const totals: TourTotals = {
+    grossBoxOffice: null,
+    netBoxOffice: null,
+    artistPayout: null,
+    artistNet: null,
+    expenses: 0,
+    profit: null,
+    margin: null,
+    unconverted: []
+  }
+  const unconverted = new Set<string>()
+  const add = (field: 'grossBoxOffice' | 'netBoxOffice' | 'artistPayout' | 'artistNet', amount: Range | number | null, from: string) => {
+    if (amount == null) return
+    const range = typeof amount === 'number' ? pointRange(amount) : amount
+    const low = convert(range.low, from, currency, fx)
+    const high = convert(range.high, from, currency, fx)
+    if (low == null || high == null) {
+      unconverted.add(from)
+      return
+    }
+    totals[field] = addRanges(totals[field] ?? pointRange(0), { low, high })
+  }
+
+  const addExpense = (amount: number, from: string) => {
+    const converted = convert(amount, from, currency, fx)
+    if (converted == null) {
+      if (amount !== 0) unconverted.add(from)
+      return
+    }
+    totals.expenses += converted
+  }
+
+  for (const stop of stops) {
+    const projected = projectStop(stop, scenario)
+    addExpense(totalOf(expensesFor(stop, expenses)), projected.currency)
+    const deal = computeDealRange(stop, scenario, deals)
+    if (deal) {
+      add('grossBoxOffice', dealFigure(deal, d => d.grossBoxOffice), deal.low.currency)
+      add('netBoxOffice', dealFigure(deal, d => d.netBoxOffice), deal.low.currency)
+      add('artistPayout', dealFigure(deal, d => d.artistPayout), deal.low.currency)
+      add('artistNet', dealFigure(deal, d => d.artistNet), deal.low.currency)
+    } else {
+      add('grossBoxOffice', projected.projectedGross, projected.currency)
+      add('artistPayout', projected.netGuarantee, projected.currency)
+      add('artistNet', projected.netGuarantee, projected.currency)
+    }
+  }
+  addExpense(Object.values(expenses.overhead.items).reduce((sum, amount) => sum + amount, 0), expenses.overhead.currency)
+
+  if (totals.artistNet) {
+    totals.profit = mapRange(totals.artistNet, income => income - totals.expenses)
+    totals.margin = marginOf(totals.artistNet, totals.profit)
+  }
+  totals.unconverted = [...unconverted]
+  return totals
+}
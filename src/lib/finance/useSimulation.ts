@@ -0,0 +1,35 @@
+import { useEffect, useState } from 'react'
+import type { SimulationRequest, SimulationResult } from './simulation'
+
+/**
+ * Runs the simulation in a Web Worker whenever the request changes; null
+ * pauses it. A new request terminates a run still in progress.
+ */
+export function useSimulation(request: SimulationRequest | null): { result: SimulationResult | null; running: boolean } {
+  const [result, setResult] = useState<SimulationResult | null>(null)
+  const [running, setRunning] = useState(false)
+  const { stops, scenario, deals, fx, currency, config } = request ?? {}
+
+  useEffect(() => {
+    if (!stops || !scenario || !deals || !fx || !currency || !config) return
+
+    const worker = new Worker(new URL('./simulation.worker.ts', import.meta.url), { type: 'module' })
+    const started = performance.now()
+    setRunning(true)
+    worker.onmessage = (event: MessageEvent<SimulationResult>) => {
+      console.log(`[Simulation] ${event.data.trials} trials in ${Math.round(performance.now() - started)}ms`)
+      setResult(event.data)
+      setRunning(false)
+      worker.terminate()
+    }
+    worker.onerror = (event) => {
+      console.error('[Simulation] Worker failed:', event.message)
+      setRunning(false)
+    }
+    worker.postMessage({ stops, scenario, deals, fx, currency, config } satisfies SimulationRequest)
+
+    return () => worker.terminate()
+  }, [stops, scenario, deals, fx, currency, config])
+
+  return { result, running }
+}
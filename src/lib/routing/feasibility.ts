@@ -0,0 +1,195 @@
+import type { Stop } from '../data/types'
+import type { SchemaIssue } from '../data/schema'
+import { computeTravelLegs, daysBetweenShows, type TravelLeg } from '../schedule/travel'
+
+/**
+ * Routing feasibility: flags tour routing that can't work or is risky, using
+ * the stops' dates, countries and the travel legs between them (travel.ts).
+ * Limits come from public/data/routing-rules.json.
+ *
+ *   same-date        two shows on one date (error)
+ *   date-order       a show dated before the one it follows (error)
+ *   long-drive       back-to-back shows further apart than maxBackToBackKm
+ *   no-day-off       more than maxConsecutiveShowDays show days in a row
+ *   border-crossing  fewer than minDaysOffAcrossBorder days off between shows
+ *                    in different countries
+ *
+ * Shared by the app (stop list badges, route segments) and the stops generator's report.
+ */
+
+export const ROUTING_RULES_DATA_PATH = 'data/routing-rules.json'
+
+export interface RoutingRules {
+  /** Furthest apart (great circle) two shows on consecutive days can be */
+  maxBackToBackKm: number
+  /** Most show days in a row before a day off */
+  maxConsecutiveShowDays: number
+  /** Days off needed between shows in different countries (border, customs, carnets) */
+  minDaysOffAcrossBorder: number
+}
+
+export type RoutingCheck = 'same-date' | 'date-order' | 'long-drive' | 'no-day-off' | 'border-crossing'
+
+export type RoutingSeverity = 'error' | 'warning'
+
+export interface RoutingIssue {
+  check: RoutingCheck
+  severity: RoutingSeverity
+  /** The stop the issue is shown on */
+  stopId: string
+  /** For issues about the leg into `stopId` */
+  fromStopId?: string
+  message: string
+}
+
+export const DEFAULT_ROUTING_RULES: RoutingRules = {
+  maxBackToBackKm: 600,
+  maxConsecutiveShowDays: 4,
+  minDaysOffAcrossBorder: 1
+}
+
+/** Shared by the stop list badges and the route segments */
+export const ROUTING_COLORS: Record<RoutingSeverity, string> = {
+  error: '#EB7A6A',
+  warning: '#F2C94C'
+}
+
+const SEVERITY: Record<RoutingCheck, RoutingSeverity> = {
+  'same-date': 'error',
+  'date-order': 'error',
+  'long-drive': 'warning',
+  'no-day-off': 'warning',
+  'border-crossing': 'warning'
+}
+
+export class RoutingRulesSchemaError extends Error {
+  issues: SchemaIssue[]
+
+  constructor(message: string, issues: SchemaIssue[]) {
+    super(message)
+    this.name = 'RoutingRulesSchemaError'
+    this.issues = issues
+  }
+}
+
+/**
+ * Validates routing-rules.json; omitted limits keep their defaults
+ */
+export function validateRoutingRules(payload: unknown): RoutingRules {
+  const issues: SchemaIssue[] = []
+  const raw = (payload ?? {}) as Partial<RoutingRules>
+  const rules = { ...DEFAULT_ROUTING_RULES, ...raw }
+  if (typeof rules.maxBackToBackKm !== 'number' || !Number.isFinite(rules.maxBackToBackKm) || rules.maxBackToBackKm <= 0) {
+    issues.push({ path: 'maxBackToBackKm', message: `expected a positive number, got ${JSON.stringify(rules.maxBackToBackKm)}` })
+  }
+  for (const field of ['maxConsecutiveShowDays', 'minDaysOffAcrossBorder'] as const) {
+    const min = field === 'maxConsecutiveShowDays' ? 1 : 0
+    if (!Number.isInteger(rules[field]) || rules[field] < min) {
+      issues.push({ path: field, message: `expected a whole number of ${min} or more, got ${JSON.stringify(rules[field])}` })
+    }
+  }
+
+  if (issues.length > 0) {
+    throw new RoutingRulesSchemaError(
+      `Invalid routing rules: ${issues.length} problem${issues.length === 1 ? '' : 's'} found`,
+      issues
+    )
+  }
+  return rules
+}
+
+/**
+ * Loads the routing limits, falling back to DEFAULT_ROUTING_RULES when none are published
+ */
+export async function loadRoutingRules(): Promise<RoutingRules> {
+  const response = await fetch(`/${ROUTING_RULES_DATA_PATH}`)
+  // Vite's dev server answers unknown paths with index.html rather than a 404
+  if (response.status === 404 || response.headers.get('content-type')?.includes('text/html')) {
+    console.warn(`[Routing] No ${ROUTING_RULES_DATA_PATH}; using default limits`)
+    return DEFAULT_ROUTING_RULES
+  }
+  if (!response.ok) {
+    throw new Error(`Failed to load routing rules: ${response.status} ${response.statusText}`)
+  }
+  return validateRoutingRules(await response.json())
+}
+
+const describe = (stop: Stop) => `${stop.city} (${stop.venue})`
+
+/**
+ * Every routing issue on the tour. The checks go by show dates, so undated
+ * stops are skipped (and break a run of show days); the long-drive check also
+ * needs both stops' coordinates.
+ */
+export function checkRouting(stops: Stop[], rules: RoutingRules, legs: TravelLeg[] = computeTravelLegs(stops)): RoutingIssue[] {
+  const issues: RoutingIssue[] = []
+  const add = (check: RoutingCheck, stopId: string, message: string, fromStopId?: string) =>
+    issues.push({ check, severity: SEVERITY[check], stopId, ...(fromStopId ? { fromStopId } : {}), message })
+
+  const sorted = [...stops].sort((a, b) => a.order - b.order)
+  const byDate = new Map<string, Stop[]>()
+  for (const stop of sorted) {
+    if (stop.date) byDate.set(stop.date, [...byDate.get(stop.date) ?? [], stop])
+  }
+  for (const [date, sameDay] of byDate) {
+    if (sameDay.length < 2) continue
+    for (const stop of sameDay) {
+      const others = sameDay.filter(other => other !== stop).map(describe).join(', ')
+      add('same-date', stop.id, `Shares ${date} with ${others}`)
+    }
+  }
+
+  let run = 1
+  for (let i = 1; i < sorted.length; i++) {
+    const from = sorted[i - 1]
+    const to = sorted[i]
+    const leg = legs.find(candidate => candidate.fromStopId === from.id && candidate.toStopId === to.id)
+    const daysBetween = daysBetweenShows(from, to)
+    if (daysBetween == null) {
+      run = 1
+      continue
+    }
+
+    if (daysBetween < 0) {
+      add('date-order', to.id, `Dated ${to.date}, before ${describe(from)} on ${from.date}`, from.id)
+    }
+    if (daysBetween === 1 && leg && leg.distanceKm > rules.maxBackToBackKm) {
+      add(
+        'long-drive',
+        to.id,
+        `${Math.round(leg.distanceKm).toLocaleString()} km from ${from.city} the day before (limit ${rules.maxBackToBackKm.toLocaleString()} km)`,
+        from.id
+      )
+    }
+
+    run = daysBetween === 1 ? run + 1 : 1
+    if (run === rules.maxConsecutiveShowDays + 1) {
+      add('no-day-off', to.id, `${run} show days in a row without a day off (limit ${rules.maxConsecutiveShowDays})`)
+    }
+
+    const daysOff = daysBetween - 1
+    if (daysBetween > 0 && from.countryCode && to.countryCode && from.countryCode !== to.countryCode
+      && daysOff < rules.minDaysOffAcrossBorder) {
+      add(
+        'border-crossing',
+        to.id,
+        `${from.countryCode} to ${to.countryCode} with ${daysOff} ${daysOff === 1 ? 'day' : 'days'} off (needs ${rules.minDaysOffAcrossBorder})`,
+        from.id
+      )
+    }
+  }
+  return issues
+}
+
+/**
+ * The worst severity per leg, keyed "fromStopId>toStopId"
+ */
+export function flaggedLegs(issues: RoutingIssue[]): Map<string, RoutingSeverity> {
+  const legs = new Map<string, RoutingSeverity>()
+  for (const issue of issues) {
+    if (!issue.fromStopId) continue
+    const key = `${issue.fromStopId}>${issue.stopId}`
+    if (legs.get(key) !== 'error') legs.set(key, issue.severity)
+  }
+  return legs
+}
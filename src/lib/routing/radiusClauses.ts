@@ -0,0 +1,177 @@
+import type { Stop } from '../data/types'
+import type { SchemaIssue } from '../data/schema'
+import { daysBetweenShows, surfaceDistance } from '../schedule/travel'
+import { ROUTING_COLORS } from './feasibility'
+
+/**
+ * Radius clauses from public/data/radius-clauses.json: a promoter's contract
+ * bars the artist from playing within radiusKm of the venue from daysBefore
+ * days before the show to daysAfter days after it. Any other stop inside both
+ * the circle (great-circle distance, travel.ts) and the date window breaches
+ * the clause. Stops without a date or coordinates can't be checked.
+ */
+
+export const RADIUS_CLAUSES_DATA_PATH = 'data/radius-clauses.json'
+
+export interface RadiusClause {
+  radiusKm: number
+  /** Days before the show the clause starts */
+  daysBefore: number
+  /** Days after the show it runs on for */
+  daysAfter: number
+  notes?: string
+}
+
+export interface RadiusClauseBook {
+  /** Keyed by stop id (or one of its aliases) */
+  stops: { [stopId: string]: RadiusClause }
+}
+
+export interface RadiusConflict {
+  /** The stop whose clause is breached */
+  stopId: string
+  city: string
+  /** The show inside its radius and date window */
+  otherStopId: string
+  otherCity: string
+  otherVenue: string
+  distanceKm: number
+  /** Days from the clause's show to the other one; negative when it's before */
+  daysApart: number
+}
+
+/** A clause drawn around its stop's marker */
+export interface RadiusCircle {
+  stopId: string
+  lat: number
+  lng: number
+  radiusKm: number
+  breached: boolean
+}
+
+export const DEFAULT_RADIUS_CLAUSE_BOOK: RadiusClauseBook = { stops: {} }
+
+/** Breached clauses share the routing error colour */
+export const RADIUS_COLORS = {
+  clear: '#E7D1A7',
+  breached: ROUTING_COLORS.error
+}
+
+export class RadiusClausesSchemaError extends Error {
+  issues: SchemaIssue[]
+
+  constructor(message: string, issues: SchemaIssue[]) {
+    super(message)
+    this.name = 'RadiusClausesSchemaError'
+    this.issues = issues
+  }
+}
+
+/**
+ * Validates radius-clauses.json, collecting every problem rather than stopping at the first
+ */
+export function validateRadiusClauses(payload: unknown): RadiusClauseBook {
+  const issues: SchemaIssue[] = []
+  const book = (payload ?? {}) as Partial<RadiusClauseBook>
+  if (book.stops != null && typeof book.stops !== 'object') {
+    issues.push({ path: 'stops', message: `expected an object, got ${JSON.stringify(book.stops)}` })
+  }
+  for (const [stopId, clause] of Object.entries(book.stops ?? {})) {
+    const path = `stops.${stopId}`
+    if (!clause || typeof clause !== 'object') {
+      issues.push({ path, message: `expected an object, got ${JSON.stringify(clause)}` })
+      continue
+    }
+    if (typeof clause.radiusKm !== 'number' || !Number.isFinite(clause.radiusKm) || clause.radiusKm <= 0) {
+      issues.push({ path: `${path}.radiusKm`, message: `expected a positive number, got ${JSON.stringify(clause.radiusKm)}` })
+    }
+    for (const field of ['daysBefore', 'daysAfter'] as const) {
+      if (!Number.isInteger(clause[field]) || clause[field] < 0) {
+        issues.push({ path: `${path}.${field}`, message: `expected a whole number of 0 or more, got ${JSON.stringify(clause[field])}` })
+      }
+    }
+    if (clause.notes !== undefined && typeof clause.notes !== 'string') {
+      issues.push({ path: `${path}.notes`, message: `expected a string, got ${JSON.stringify(clause.notes)}` })
+    }
+  }
+
+  if (issues.length > 0) {
+    throw new RadiusClausesSchemaError(
+      `Invalid radius clauses: ${issues.length} problem${issues.length === 1 ? '' : 's'} found`,
+      issues
+    )
+  }
+  return { stops: book.stops ?? {} }
+}
+
+/**
+ * Loads the radius clauses, falling back to DEFAULT_RADIUS_CLAUSE_BOOK (none) when none are published
+ */
+export async function loadRadiusClauses(): Promise<RadiusClauseBook> {
+  const response = await fetch(`/${RADIUS_CLAUSES_DATA_PATH}`)
+  // Vite's dev server answers unknown paths with index.html rather than a 404
+  if (response.status === 404 || response.headers.get('content-type')?.includes('text/html')) {
+    console.warn(`[Radius] No ${RADIUS_CLAUSES_DATA_PATH}; no radius clauses`)
+    return DEFAULT_RADIUS_CLAUSE_BOOK
+  }
+  if (!response.ok) {
+    throw new Error(`Failed to load radius clauses: ${response.status} ${response.statusText}`)
+  }
+  return validateRadiusClauses(await response.json())
+}
+
+/**
+ * The stop's clause, by id or alias; null when its contract has none
+ */
+export function radiusClauseFor(stop: Stop, book: RadiusClauseBook): RadiusClause | null {
+  return [stop.id, ...stop.aliases].map(id => book.stops[id]).find(Boolean) ?? null
+}
+
+/**
+ * Every breach of every clause on the tour, one per clause and offending stop
+ */
+export function findRadiusConflicts(stops: Stop[], book: RadiusClauseBook): RadiusConflict[] {
+  const conflicts: RadiusConflict[] = []
+  for (const stop of stops) {
+    const clause = radiusClauseFor(stop, book)
+    if (!clause) continue
+    for (const other of stops) {
+      if (other.id === stop.id) continue
+      const daysApart = daysBetweenShows(stop, other)
+      if (daysApart == null || daysApart < -clause.daysBefore || daysApart > clause.daysAfter) continue
+      const metres = surfaceDistance(stop, other)
+      if (metres == null || metres / 1000 > clause.radiusKm) continue
+      conflicts.push({
+        stopId: stop.id,
+        city: stop.city,
+        otherStopId: other.id,
+        otherCity: other.city,
+        otherVenue: other.venue,
+        distanceKm: metres / 1000,
+        daysApart
+      })
+    }
+  }
+  return conflicts
+}
+
+/**
+ * One circle per stop with a clause and coordinates
+ */
+export function radiusCircles(stops: Stop[], book: RadiusClauseBook, conflicts: RadiusConflict[]): RadiusCircle[] {
+  const breached = new Set(conflicts.map(conflict => conflict.stopId))
+  return stops.flatMap(stop => {
+    const clause = radiusClauseFor(stop, book)
+    if (!clause || stop.lat == null || stop.lng == null) return []
+    return [{ stopId: stop.id, lat: stop.lat, lng: stop.lng, radiusKm: clause.radiusKm, breached: breached.has(stop.id) }]
+  })
+}
+
+/**
+ * "3 days before", "the same day", "1 day after"
+ */
+export function formatDaysApart(daysApart: number): string {
+  if (daysApart === 0) return 'the same day'
+  const days = Math.abs(daysApart)
+  return `${days} ${days === 1 ? 'day' : 'days'} ${daysApart < 0 ? 'before' : 'after'}`
+}
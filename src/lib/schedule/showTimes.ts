@@ -0,0 +1,147 @@
+import type { Stop } from '../data/types'
+
+export type ShowPhase = 'unscheduled' | 'upcoming' | 'live' | 'played'
+
+const MINUTE_MS = 60 * 1000
+const HOUR_MS = 60 * MINUTE_MS
+const DAY_MS = 24 * HOUR_MS
+
+/**
+ * Offset (ms) of the given IANA timezone from UTC at the given instant.
+ */
+function getTimeZoneOffset(instant: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  }).formatToParts(new Date(instant))
+
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find(p => p.type === type)?.value ?? 0)
+
+  const asUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'))
+  return asUtc - Math.floor(instant / 1000) * 1000
+}
+
+/**
+ * Converts a local wall-clock date/time in a timezone to a UTC instant.
+ * Falls back to the browser's timezone when none (or an invalid one) is given.
+ */
+export function zonedTimeToInstant(date: string, time: string, timeZone: string | null): number | null {
+  const dateMatch = date.match(/^(\d{4})-(\d{2})-(\d{2})$/)
+  const timeMatch = time.match(/^(\d{2}):(\d{2})$/)
+  if (!dateMatch || !timeMatch) return null
+
+  const [, y, mo, d] = dateMatch.map(Number)
+  const [, h, mi] = timeMatch.map(Number)
+
+  if (!timeZone) {
+    return new Date(y, mo - 1, d, h, mi).getTime()
+  }
+
+  const wallClock = Date.UTC(y, mo - 1, d, h, mi)
+  try {
+    // Two passes so instants right after a DST switch land on the right offset
+    const firstGuess = wallClock - getTimeZoneOffset(wallClock, timeZone)
+    return wallClock - getTimeZoneOffset(firstGuess, timeZone)
+  } catch {
+    return new Date(y, mo - 1, d, h, mi).getTime()
+  }
+}
+
+/**
+ * Instant the show starts (show time, else doors, else local midnight).
+ */
+export function getShowStart(stop: Stop): number | null {
+  if (!stop.date) return null
+  return zonedTimeToInstant(stop.date, stop.showTime ?? stop.doorsTime ?? '00:00', stop.timezone)
+}
+
+/**
+ * Instant the show day ends in the venue's timezone (next local midnight).
+ */
+function getShowDayEnd(stop: Stop): number | null {
+  if (!stop.date) return null
+  const [y, m, d] = stop.date.split('-').map(Number)
+  const next = new Date(Date.UTC(y, m - 1, d) + DAY_MS).toISOString().slice(0, 10)
+  return zonedTimeToInstant(next, '00:00', stop.timezone)
+}
+
+export function getShowPhase(stop: Stop, now: number): ShowPhase {
+  const start = getShowStart(stop)
+  const dayEnd = getShowDayEnd(stop)
+  if (start == null || dayEnd == null) return 'unscheduled'
+  if (now >= dayEnd) return 'played'
+  if (now >= start) return 'live'
+  return 'upcoming'
+}
+
+/**
+ * Earliest stop whose show has not started yet.
+ */
+export function findNextShow(stops: Stop[], now: number): Stop | null {
+  let next: Stop | null = null
+  let nextStart = Infinity
+  for (const stop of stops) {
+    const start = getShowStart(stop)
+    if (start != null && start > now && start < nextStart) {
+      next = stop
+      nextStart = start
+    }
+  }
+  return next
+}
+
+/**
+ * Formats a remaining duration, e.g. "12d 04h 33m" or "04:33:10" under a day.
+ */
+export function formatCountdown(ms: number, withSeconds = true): string {
+  const clamped = Math.max(0, ms)
+  const days = Math.floor(clamped / DAY_MS)
+  const hours = Math.floor((clamped % DAY_MS) / HOUR_MS)
+  const minutes = Math.floor((clamped % HOUR_MS) / MINUTE_MS)
+  const seconds = Math.floor((clamped % MINUTE_MS) / 1000)
+  const pad = (n: number) => n.toString().padStart(2, '0')
+
+  if (days > 0) {
+    return `${days}d ${pad(hours)}h ${pad(minutes)}m`
+  }
+  return withSeconds
+    ? `${pad(hours)}:${pad(minutes)}:${pad(seconds)}`
+    : `${pad(hours)}h ${pad(minutes)}m`
+}
+
+/**
+ * Formats the calendar date of a stop, e.g. "Sat, Mar 14, 2026".
+ */
+export function formatShowDate(stop: Stop): string {
+  if (!stop.date) return 'TBD'
+  const [y, m, d] = stop.date.split('-').map(Number)
+  return new Date(Date.UTC(y, m - 1, d)).toLocaleDateString(undefined, {
+    timeZone: 'UTC',
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric'
+  })
+}
+
+/**
+ * Short timezone label for the venue at show time, e.g. "CST".
+ */
+export function formatTimeZoneLabel(stop: Stop): string | null {
+  const start = getShowStart(stop)
+  if (start == null || !stop.timezone) return null
+  try {
+    const parts = new Intl.DateTimeFormat('en-US', { timeZone: stop.timezone, timeZoneName: 'short' })
+      .formatToParts(new Date(start))
+    return parts.find(p => p.type === 'timeZoneName')?.value ?? null
+  } catch {
+    return null
+  }
+}
@@ -0,0 +1,127 @@
+import { Cartographic, Ellipsoid, EllipsoidGeodesic } from 'cesium'
+import type { Stop } from '../data/types'
+
+/**
+ * Travel between consecutive stops (in tour order): the great-circle distance
+ * on the WGS84 ellipsoid (the same geodesic the route arcs follow, see
+ * addRoute.ts), an estimated travel time and the days between the two shows.
+ *
+ * Legs up to MAX_DRIVE_KM are driven, longer ones flown. Drive time allows for
+ * roads winding (ROAD_FACTOR) at an average coach speed; flight time adds the
+ * airport time either side. A leg takes travel days when it doesn't fit in the
+ * morning of the next show (SAME_DAY_HOURS), one per TRAVEL_DAY_HOURS.
+ */
+
+export type TransportMode = 'drive' | 'fly'
+
+/** Longest leg still driven */
+export const MAX_DRIVE_KM = 800
+/** Road distance per kilometre of great circle */
+export const ROAD_FACTOR = 1.25
+export const DRIVE_SPEED_KMH = 80
+export const FLIGHT_SPEED_KMH = 750
+/** Getting to, through and out of airports */
+export const FLIGHT_OVERHEAD_HOURS = 4
+/** Travel that still leaves time to load in on show day */
+export const SAME_DAY_HOURS = 5
+export const TRAVEL_DAY_HOURS = 12
+
+export interface TravelLeg {
+  fromStopId: string
+  toStopId: string
+  fromCity: string
+  toCity: string
+  distanceKm: number
+  mode: TransportMode
+  hours: number
+  /** Calendar days from one show to the next; null unless both are dated */
+  daysBetween: number | null
+  travelDays: number
+}
+
+export interface TravelTotals {
+  distanceKm: number
+  travelDays: number
+  /** Consecutive stops without coordinates, left out */
+  unmeasured: number
+}
+
+/**
+ * Great-circle distance in metres between two stops; null without coordinates
+ */
+export function surfaceDistance(from: Stop, to: Stop): number | null {
+  if (from.lat == null || from.lng == null || to.lat == null || to.lng == null) return null
+  const geodesic = new EllipsoidGeodesic(
+    Cartographic.fromDegrees(from.lng, from.lat),
+    Cartographic.fromDegrees(to.lng, to.lat),
+    Ellipsoid.WGS84
+  )
+  return geodesic.surfaceDistance
+}
+
+const dayNumber = (date: string) => Math.floor(Date.parse(`${date}T00:00:00Z`) / (24 * 60 * 60 * 1000))
+
+/**
+ * Calendar days from one stop's show to the next's; null unless both are dated
+ */
+export function daysBetweenShows(from: Stop, to: Stop): number | null {
+  return from.date && to.date ? dayNumber(to.date) - dayNumber(from.date) : null
+}
+
+export function estimateTravel(distanceKm: number): { mode: TransportMode; hours: number; travelDays: number } {
+  const mode: TransportMode = distanceKm <= MAX_DRIVE_KM ? 'drive' : 'fly'
+  const hours = mode === 'drive'
+    ? distanceKm * ROAD_FACTOR / DRIVE_SPEED_KMH
+    : distanceKm / FLIGHT_SPEED_KMH + FLIGHT_OVERHEAD_HOURS
+  return { mode, hours, travelDays: hours <= SAME_DAY_HOURS ? 0 : Math.ceil(hours / TRAVEL_DAY_HOURS) }
+}
+
+/**
+ * One leg per pair of consecutive stops that both have coordinates
+ */
+export function computeTravelLegs(stops: Stop[]): TravelLeg[] {
+  const sorted = [...stops].sort((a, b) => a.order - b.order)
+  const legs: TravelLeg[] = []
+  for (let i = 0; i < sorted.length - 1; i++) {
+    const from = sorted[i]
+    const to = sorted[i + 1]
+    const metres = surfaceDistance(from, to)
+    if (metres == null) continue
+    const distanceKm = metres / 1000
+    legs.push({
+      fromStopId: from.id,
+      toStopId: to.id,
+      fromCity: from.city,
+      toCity: to.city,
+      distanceKm,
+      ...estimateTravel(distanceKm),
+      daysBetween: daysBetweenShows(from, to)
+    })
+  }
+  return legs
+}
+
+export function travelTotals(stops: Stop[], legs: TravelLeg[]): TravelTotals {
+  return {
+    distanceKm: legs.reduce((sum, leg) => sum + leg.distanceKm, 0),
+    travelDays: legs.reduce((sum, leg) => sum + leg.travelDays, 0),
+    unmeasured: Math.max(0, stops.length - 1 - legs.length)
+  }
+}
+
+/**
+ * "512 km · 8h drive", "2,140 km · 7h flight"
+ */
+export function formatTravel(leg: TravelLeg): string {
+  const hours = leg.hours < 1 ? '<1h' : `${Math.round(leg.hours)}h`
+  return `${Math.round(leg.distanceKm).toLocaleString()} km · ${hours} ${leg.mode === 'drive' ? 'drive' : 'flight'}`
+}
+
+/**
+ * "2 days between shows", "same day"; null without dates
+ */
+export function formatDaysBetween(leg: TravelLeg): string | null {
+  if (leg.daysBetween == null) return null
+  if (leg.daysBetween === 0) return 'same day'
+  return `${leg.daysBetween} ${leg.daysBetween === 1 ? 'day' : 'days'} between shows`
+}
@@ -0,0 +1,15 @@
+import { useEffect, useState } from 'react'
+
+/**
+ * Current time in ms, refreshed on an interval (drives live countdowns).
+ */
+export function useNow(intervalMs = 1000): number {
+  const [now, setNow] = useState(() => Date.now())
+
+  useEffect(() => {
+    const id = window.setInterval(() => setNow(Date.now()), intervalMs)
+    return () => window.clearInterval(id)
+  }, [intervalMs])
+
+  return now
+}